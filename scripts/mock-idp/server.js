@@ -0,0 +1,480 @@
+/**
+ * ============================================================================
+ * MOCK IDENTITY SERVER - scripts/mock-idp/server.js
+ * ============================================================================
+ *
+ * A local OIDC identity provider for offline development and automated tests.
+ * It implements just enough of the Identity Server endpoints for oidc-client-ts:
+ * discovery, JWKS, authorize (with a user picker), token (authorization code
+ * with PKCE + refresh token), userinfo, end session and revocation.
+ * Tokens are RS256-signed with a key pair generated at startup.
+ *
+ * خادم هوية وهمي - scripts/mock-idp/server.js
+ * موفر هوية OIDC محلي للتطوير دون اتصال وللاختبارات الآلية.
+ * ينفذ ما يكفي من نقاط نهاية خادم الهوية لـ oidc-client-ts:
+ * الاكتشاف، JWKS، التفويض (مع منتقي مستخدم)، الرمز المميز (رمز التفويض
+ * مع PKCE + رمز التحديث)، معلومات المستخدم، إنهاء الجلسة والإلغاء.
+ * يتم توقيع الرموز بـ RS256 بزوج مفاتيح يتم إنشاؤه عند بدء التشغيل.
+ *
+ * ============================================================================
+ * USAGE:
+ *   npm run mock-idp
+ *   REACT_APP_ENVIRONMENT=mock in .env.development.local, then npm start
+ *
+ * Fake users (with roles/claims) are read from users.json (MOCK_IDP_USERS to override).
+ * The login page lets you pick a user and a scenario:
+ * - normal: tokens live MOCK_IDP_TOKEN_LIFETIME seconds (default 3600)
+ * - shortLived: tokens live 90 seconds - exercises expiring/expired handling
+ * - renewFails: refresh token and silent (prompt=none) renewals are rejected
+ * "Deny" returns error=access_denied to the app.
+ *
+ * الاستخدام:
+ *   npm run mock-idp
+ *   REACT_APP_ENVIRONMENT=mock في .env.development.local، ثم npm start
+ *
+ * يتم قراءة المستخدمين الوهميين (مع الأدوار/المطالبات) من users.json.
+ * تتيح صفحة تسجيل الدخول اختيار مستخدم وسيناريو:
+ * - normal: تعيش الرموز MOCK_IDP_TOKEN_LIFETIME ثانية (الافتراضي 3600)
+ * - shortLived: تعيش الرموز 90 ثانية - لاختبار معالجة قرب الانتهاء/الانتهاء
+ * - renewFails: يتم رفض التجديد برمز التحديث والتجديد الصامت (prompt=none)
+ * "Deny" يعيد error=access_denied إلى التطبيق.
+ * ============================================================================
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const PORT = Number(process.env.MOCK_IDP_PORT) || 5005;
+const ISSUER = process.env.MOCK_IDP_ISSUER || `http://localhost:${PORT}`;
+const TOKEN_LIFETIME = Number(process.env.MOCK_IDP_TOKEN_LIFETIME) || 3600;
+const SHORT_TOKEN_LIFETIME = 90;
+const USERS_FILE = process.env.MOCK_IDP_USERS || path.join(__dirname, 'users.json');
+const SESSION_COOKIE = 'mock_idp_session';
+const SCENARIOS = ['normal', 'shortLived', 'renewFails'];
+
+const { users } = JSON.parse(fs.readFileSync(USERS_FILE, 'utf8'));
+
+// Signing key - new on every start, published at /.well-known/jwks
+// مفتاح التوقيع - جديد في كل تشغيل، منشور في /.well-known/jwks
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+const JWK = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' };
+
+// In-memory state / الحالة في الذاكرة
+const codes = new Map();          // code → grant
+const refreshTokens = new Map();  // refresh token → grant
+const sessions = new Map();       // session cookie → { sub, scenario, authTime }
+
+const base64url = (value) => Buffer.from(value).toString('base64url');
+const randomId = () => crypto.randomBytes(24).toString('base64url');
+const now = () => Math.floor(Date.now() / 1000);
+
+const escapeHtml = (value) => String(value).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+const findUser = (sub) => users.find((user) => user.sub === sub);
+
+/**
+ * Sign JWT
+ * Creates an RS256 JWT with the startup key
+ *
+ * توقيع JWT
+ * ينشئ JWT بخوارزمية RS256 بمفتاح بدء التشغيل
+ */
+const signJwt = (payload) => {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }));
+  const body = base64url(JSON.stringify(payload));
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${body}`), privateKey).toString('base64url');
+  return `${header}.${body}.${signature}`;
+};
+
+/**
+ * Verify JWT
+ * Returns the payload of a token signed by this server, or null
+ *
+ * التحقق من JWT
+ * يعيد حمولة رمز موقع من هذا الخادم، أو null
+ */
+const verifyJwt = (token) => {
+  const [header, body, signature] = String(token).split('.');
+  if (!header || !body || !signature) {
+    return null;
+  }
+  const valid = crypto.verify('RSA-SHA256', Buffer.from(`${header}.${body}`), publicKey, Buffer.from(signature, 'base64url'));
+  if (!valid) {
+    return null;
+  }
+  const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  return payload.exp > now() ? payload : null;
+};
+
+const userClaims = (user) => ({
+  sub: user.sub,
+  name: user.name,
+  email: user.email,
+  role: user.role,
+  ...user.claims,
+});
+
+/**
+ * Issue Tokens
+ * Builds the token endpoint response for a grant
+ * scope narrows the access token (refresh_token grant with "scope"), the refresh token keeps the grant
+ *
+ * إصدار الرموز المميزة
+ * ينشئ استجابة نقطة نهاية الرمز المميز لمنح
+ * scope يضيق رمز الوصول (منح refresh_token مع "scope")، ورمز التحديث يحتفظ بالمنح
+ */
+const issueTokens = (grant, scope = grant.scope) => {
+  const user = findUser(grant.sub);
+  const lifetime = grant.scenario === 'shortLived' ? SHORT_TOKEN_LIFETIME : TOKEN_LIFETIME;
+  const iat = now();
+  const scopes = scope.split(' ');
+
+  const accessToken = signJwt({
+    iss: ISSUER,
+    aud: scopes.filter((scope) => !['openid', 'profile', 'roles', 'offline_access'].includes(scope)),
+    client_id: grant.clientId,
+    sub: user.sub,
+    scope: scopes,
+    role: user.role,
+    iat,
+    exp: iat + lifetime,
+    jti: randomId(),
+  });
+
+  const idToken = signJwt({
+    iss: ISSUER,
+    aud: grant.clientId,
+    sub: user.sub,
+    nonce: grant.nonce,
+    sid: grant.sid,
+    auth_time: grant.authTime,
+    acr: grant.acr,
+    iat,
+    exp: iat + lifetime,
+    ...userClaims(user),
+  });
+
+  const response = {
+    access_token: accessToken,
+    id_token: idToken,
+    token_type: 'Bearer',
+    expires_in: lifetime,
+    scope,
+  };
+
+  if (grant.scope.split(' ').includes('offline_access')) {
+    const refreshToken = randomId();
+    refreshTokens.set(refreshToken, grant);
+    response.refresh_token = refreshToken;
+  }
+
+  return response;
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', (chunk) => { data += chunk; });
+  req.on('end', () => resolve(new URLSearchParams(data)));
+  req.on('error', reject);
+});
+
+const parseCookies = (req) => Object.fromEntries(
+  (req.headers.cookie || '').split(';').filter(Boolean).map((part) => {
+    const [name, ...rest] = part.trim().split('=');
+    return [name, decodeURIComponent(rest.join('='))];
+  })
+);
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const redirect = (res, location, headers = {}) => {
+  res.writeHead(302, { Location: location, ...headers });
+  res.end();
+};
+
+const redirectWithParams = (res, redirectUri, params, headers) => {
+  const url = new URL(redirectUri);
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      url.searchParams.set(key, value);
+    }
+  });
+  redirect(res, url.toString(), headers);
+};
+
+/**
+ * Create Code
+ * Stores an authorization code for the token endpoint
+ *
+ * إنشاء رمز
+ * يخزن رمز تفويض لنقطة نهاية الرمز المميز
+ */
+const createCode = (params, session) => {
+  const code = randomId();
+  codes.set(code, {
+    sub: session.sub,
+    scenario: session.scenario,
+    authTime: session.authTime,
+    sid: session.sid,
+    acr: params.get('acr_values') ? params.get('acr_values').split(' ')[0] : 'pwd',
+    clientId: params.get('client_id'),
+    redirectUri: params.get('redirect_uri'),
+    scope: params.get('scope') || 'openid',
+    nonce: params.get('nonce') || undefined,
+    codeChallenge: params.get('code_challenge'),
+  });
+  return code;
+};
+
+/**
+ * Render Login Page
+ * User picker + scenario select; the original authorize params are kept as hidden fields
+ *
+ * عرض صفحة تسجيل الدخول
+ * منتقي المستخدم + اختيار السيناريو؛ يتم الاحتفاظ بمعاملات التفويض الأصلية كحقول مخفية
+ */
+const renderLoginPage = (res, params) => {
+  const hidden = Array.from(params.entries())
+    .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`)
+    .join('');
+  const userButtons = users
+    .map((user) => `<button name="sub" value="${escapeHtml(user.sub)}">${escapeHtml(user.name)} <small>(${escapeHtml([].concat(user.role).join(', ') || 'no roles')})</small></button>`)
+    .join('');
+  const scenarioOptions = SCENARIOS
+    .map((scenario) => `<option value="${scenario}">${scenario}</option>`)
+    .join('');
+
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(`<!doctype html>
+<html>
+<head><title>Mock Identity Server</title>
+<style>body{font-family:sans-serif;max-width:420px;margin:60px auto}button{display:block;width:100%;margin:8px 0;padding:10px}</style>
+</head>
+<body>
+  <h2>Mock Identity Server</h2>
+  <p>Client: <code>${escapeHtml(params.get('client_id'))}</code></p>
+  <form method="post" action="/connect/authorize/callback">
+    ${hidden}
+    <label>Scenario <select name="scenario">${scenarioOptions}</select></label>
+    ${userButtons}
+    <button name="deny" value="1">Deny</button>
+  </form>
+</body>
+</html>`);
+};
+
+/**
+ * Handle Authorize
+ * prompt=none (silent renew) answers from the session cookie, otherwise show the login page
+ *
+ * معالجة التفويض
+ * prompt=none (التجديد الصامت) يجيب من ملف تعريف ارتباط الجلسة، وإلا تعرض صفحة تسجيل الدخول
+ */
+const handleAuthorize = (req, res, url) => {
+  const params = url.searchParams;
+  const redirectUri = params.get('redirect_uri');
+  const state = params.get('state');
+
+  if (!redirectUri || params.get('response_type') !== 'code') {
+    sendJson(res, 400, { error: 'invalid_request', error_description: 'redirect_uri and response_type=code are required' });
+    return;
+  }
+
+  const session = sessions.get(parseCookies(req)[SESSION_COOKIE]);
+  const maxAge = params.get('max_age');
+  const isFresh = session && (maxAge === null || now() - session.authTime <= Number(maxAge));
+
+  if (params.get('prompt') === 'none') {
+    if (!session || session.scenario === 'renewFails' || !isFresh) {
+      redirectWithParams(res, redirectUri, { error: 'login_required', state });
+      return;
+    }
+    redirectWithParams(res, redirectUri, { code: createCode(params, session), state });
+    return;
+  }
+
+  renderLoginPage(res, params);
+};
+
+const handleAuthorizeCallback = async (req, res) => {
+  const params = await readBody(req);
+  const redirectUri = params.get('redirect_uri');
+  const state = params.get('state');
+
+  if (params.get('deny')) {
+    redirectWithParams(res, redirectUri, { error: 'access_denied', error_description: 'The user denied the request', state });
+    return;
+  }
+
+  const user = findUser(params.get('sub'));
+  if (!user) {
+    sendJson(res, 400, { error: 'invalid_request', error_description: 'Unknown user' });
+    return;
+  }
+
+  const sid = randomId();
+  const session = { sub: user.sub, scenario: params.get('scenario') || 'normal', authTime: now(), sid };
+  sessions.set(sid, session);
+
+  redirectWithParams(res, redirectUri, { code: createCode(params, session), state }, {
+    'Set-Cookie': `${SESSION_COOKIE}=${sid}; Path=/; HttpOnly; SameSite=Lax`,
+  });
+};
+
+/**
+ * Handle Token
+ * authorization_code (with PKCE S256 check) and refresh_token grants
+ *
+ * معالجة الرمز المميز
+ * منح authorization_code (مع فحص PKCE S256) و refresh_token
+ */
+const handleToken = async (req, res) => {
+  const params = await readBody(req);
+  const grantType = params.get('grant_type');
+
+  if (grantType === 'authorization_code') {
+    const grant = codes.get(params.get('code'));
+    codes.delete(params.get('code'));
+
+    if (!grant || grant.redirectUri !== params.get('redirect_uri')) {
+      sendJson(res, 400, { error: 'invalid_grant', error_description: 'Unknown or expired code' });
+      return;
+    }
+
+    const verifier = params.get('code_verifier') || '';
+    const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+    if (grant.codeChallenge && challenge !== grant.codeChallenge) {
+      sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+      return;
+    }
+
+    sendJson(res, 200, issueTokens(grant));
+    return;
+  }
+
+  if (grantType === 'refresh_token') {
+    const grant = refreshTokens.get(params.get('refresh_token'));
+    refreshTokens.delete(params.get('refresh_token'));
+
+    if (!grant || grant.scenario === 'renewFails') {
+      sendJson(res, 400, { error: 'invalid_grant', error_description: 'Refresh token rejected' });
+      return;
+    }
+
+    const scope = params.get('scope') || grant.scope;
+    if (scope.split(' ').some((requested) => !grant.scope.split(' ').includes(requested))) {
+      refreshTokens.set(params.get('refresh_token'), grant);
+      sendJson(res, 400, { error: 'invalid_scope', error_description: 'Scope was not granted' });
+      return;
+    }
+
+    sendJson(res, 200, issueTokens({ ...grant, nonce: undefined }, scope));
+    return;
+  }
+
+  sendJson(res, 400, { error: 'unsupported_grant_type' });
+};
+
+const handleUserInfo = (req, res) => {
+  const token = (req.headers.authorization || '').replace(/^(Bearer|DPoP) /, '');
+  const payload = verifyJwt(token);
+  const user = payload && findUser(payload.sub);
+
+  if (!user) {
+    sendJson(res, 401, { error: 'invalid_token' });
+    return;
+  }
+  sendJson(res, 200, userClaims(user));
+};
+
+const handleEndSession = (req, res, url) => {
+  const sid = parseCookies(req)[SESSION_COOKIE];
+  sessions.delete(sid);
+  const clearCookie = { 'Set-Cookie': `${SESSION_COOKIE}=; Path=/; Max-Age=0` };
+  const postLogoutRedirectUri = url.searchParams.get('post_logout_redirect_uri');
+
+  if (postLogoutRedirectUri) {
+    redirectWithParams(res, postLogoutRedirectUri, { state: url.searchParams.get('state') }, clearCookie);
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', ...clearCookie });
+  res.end('<p>You have been signed out of the mock identity server.</p>');
+};
+
+const metadata = {
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/connect/authorize`,
+  token_endpoint: `${ISSUER}/connect/token`,
+  userinfo_endpoint: `${ISSUER}/connect/userinfo`,
+  end_session_endpoint: `${ISSUER}/connect/endsession`,
+  revocation_endpoint: `${ISSUER}/connect/revocation`,
+  jwks_uri: `${ISSUER}/.well-known/jwks`,
+  response_types_supported: ['code'],
+  grant_types_supported: ['authorization_code', 'refresh_token'],
+  subject_types_supported: ['public'],
+  id_token_signing_alg_values_supported: ['RS256'],
+  code_challenge_methods_supported: ['S256'],
+  scopes_supported: ['openid', 'profile', 'roles', 'offline_access', 'CalcApi', 'CalcAttachmentApi'],
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+
+  // CORS - the SPA calls discovery, token and userinfo with fetch
+  // CORS - يستدعي التطبيق الاكتشاف والرمز المميز ومعلومات المستخدم باستخدام fetch
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, DPoP');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  try {
+    switch (`${req.method} ${url.pathname}`) {
+      case 'GET /.well-known/openid-configuration':
+        sendJson(res, 200, metadata);
+        break;
+      case 'GET /.well-known/jwks':
+        sendJson(res, 200, { keys: [JWK] });
+        break;
+      case 'GET /connect/authorize':
+        handleAuthorize(req, res, url);
+        break;
+      case 'POST /connect/authorize/callback':
+        await handleAuthorizeCallback(req, res);
+        break;
+      case 'POST /connect/token':
+        await handleToken(req, res);
+        break;
+      case 'GET /connect/userinfo':
+        handleUserInfo(req, res);
+        break;
+      case 'GET /connect/endsession':
+        handleEndSession(req, res, url);
+        break;
+      case 'POST /connect/revocation':
+        res.writeHead(200);
+        res.end();
+        break;
+      default:
+        sendJson(res, 404, { error: 'not_found' });
+    }
+  } catch (error) {
+    console.error('Mock identity server error:', error);
+    sendJson(res, 500, { error: 'server_error', error_description: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock identity server listening on ${ISSUER}`);
+  console.log(`Users: ${users.map((user) => user.sub).join(', ')}`);
+});
@@ -1,9 +1,71 @@
 import React from 'react';
 import { render, screen } from '@testing-library/react';
+import { IdTokenClaims } from 'oidc-client-ts';
 import App from './App';
+import { AuthService, createAuthService } from './auth/authService';
+import { AuthServiceConfig } from './auth/config/authConfig';
+import { createUser } from './auth/testUtils';
 
-test('renders learn react link', () => {
-  render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+const config: AuthServiceConfig = {
+  providers: [
+    { id: 'sbc', displayName: 'SBC', identityServerUrl: 'https://id.example.test', clientId: 'calc-test' },
+  ],
+  apis: [{ id: 'calc', baseUrl: 'https://api.example.test/api/app', scopes: ['CalcApi'] }],
+  renewStrategies: ['refreshToken'],
+  tokenStorage: 'memory',
+  sessionChangeAction: 'prompt',
+  audit: null,
+  dpop: false,
+  origin: 'http://localhost',
+};
+
+const idlePolicy = { timeoutMinutes: 15, warningSeconds: 60, action: 'logout' as const };
+
+let authService: AuthService;
+
+// Signs in without Identity Server: the user is stored where AuthService reads it on mount
+const signIn = (claims: Partial<IdTokenClaims>) => {
+  const user = createUser({ name: 'Test User', ...claims }, 3600);
+  user.scope = 'openid profile CalcApi';
+  return authService.getUserManager().storeUser(user);
+};
+
+beforeEach(() => {
+  window.history.pushState({}, '', '/');
+  authService = createAuthService(config);
+});
+
+afterEach(() => authService.dispose());
+
+test('sends an anonymous user from a protected page to the login page', async () => {
+  render(<App authService={authService} idlePolicy={idlePolicy} />);
+
+  expect(await screen.findByRole('button', { name: /sign in by sbc/i })).toBeInTheDocument();
+  expect(window.location.pathname).toBe('/login');
+});
+
+test('shows the account page to an admin', async () => {
+  window.history.pushState({}, '', '/account');
+  await signIn({ role: ['admin', 'user'] });
+  render(<App authService={authService} idlePolicy={idlePolicy} />);
+
+  expect(await screen.findByRole('heading', { name: 'Account' })).toBeInTheDocument();
+  expect(screen.getByRole('link', { name: 'Account' })).toBeInTheDocument();
+});
+
+test('shows the account page to support staff', async () => {
+  window.history.pushState({}, '', '/account');
+  await signIn({ role: 'support' });
+  render(<App authService={authService} idlePolicy={idlePolicy} />);
+
+  expect(await screen.findByRole('heading', { name: 'Account' })).toBeInTheDocument();
+});
+
+test('denies the account page to a user without the admin or support role', async () => {
+  window.history.pushState({}, '', '/account');
+  await signIn({ role: 'user' });
+  render(<App authService={authService} idlePolicy={idlePolicy} />);
+
+  expect(await screen.findByRole('heading', { name: 'Access denied' })).toBeInTheDocument();
+  expect(screen.queryByRole('link', { name: 'Account' })).not.toBeInTheDocument();
 });
@@ -18,7 +18,7 @@
  * 4. ProtectedRoute checks auth → redirects to /login if not authenticated
  * 5. Login page → user clicks login → redirects to Identity Server
  * 6. Identity Server → user authenticates → redirects back to /auth/callback
- * 7. AuthCallback → processes callback → redirects to returnUrl
+ * 7. AuthCallback → processes callback → redirects to the return location from the OIDC state
  * 
  * التدفق:
  * 1. App يتم عرضه → يغلف التطبيق بـ BrowserRouter و AuthProvider
@@ -27,7 +27,7 @@
  * 4. ProtectedRoute يتحقق من المصادقة → يعيد التوجيه إلى /login إذا لم يكن مصادقاً
  * 5. صفحة تسجيل الدخول → المستخدم ينقر على تسجيل الدخول → يعيد التوجيه إلى خادم الهوية
  * 6. خادم الهوية → المستخدم يتم التحقق منه → يعيد التوجيه إلى /auth/callback
- * 7. AuthCallback → يعالج الاستدعاء → يعيد التوجيه إلى returnUrl
+ * 7. AuthCallback → يعالج الاستدعاء → يعيد التوجيه إلى موقع العودة من حالة OIDC
  * ============================================================================
  */
 
@@ -36,30 +36,65 @@ import { BrowserRouter, Routes, Route, Link, Navigate } from 'react-router-dom';
 import Login from './auth/Login';
 import AuthCallback from './auth/AuthCallback';
 import SilentRenew from './auth/SilentRenew';
+import PopupCallback from './auth/PopupCallback';
 import ProtectedRoute from './auth/ProtectedRoute';
+import AccountPage from './auth/AccountPage';
+import SignoutCallback from './auth/SignoutCallback';
+import SignedOut from './auth/SignedOut';
+import SessionExpiryDialog from './auth/SessionExpiryDialog';
+import SessionChangedDialog from './auth/SessionChangedDialog';
+import IdleWarningDialog from './auth/IdleWarningDialog';
+import Authorized from './auth/Authorized';
+import { definePolicy } from './auth/policies';
 import { AuthProvider, useAuth } from './auth/contexts/AuthContext';
+import { AuthStatus } from './auth/authStatus';
+import { AuthService } from './auth/authService';
+import { IdlePolicy } from './auth/config/appConfig';
+import { IdleProvider } from './auth/contexts/IdleContext';
 import Game from './Game';
 
+// The account page shows tokens and session details - for developers (admin) and support staff only
+// صفحة الحساب تعرض الرموز وتفاصيل الجلسة - للمطورين (admin) وموظفي الدعم فقط
+const ACCOUNT_ROLES = ['admin', 'support'];
+const ACCOUNT_POLICY = definePolicy('account.view', (user) => user.roles.some((role) => ACCOUNT_ROLES.includes(role)));
+
+// Status shown next to the sign in / sign out action / الحالة المعروضة بجانب إجراء تسجيل الدخول / الخروج
+const STATUS_LABELS: Partial<Record<AuthStatus, string>> = {
+  authenticating: 'Signing in...',
+  renewing: 'Renewing session...',
+  expired: 'Session expired',
+  error: 'Sign in failed',
+};
+
 /**
  * AppHeader Component
  * Displays navigation links and authentication status
  * Shows "Sign in" link if not authenticated, "Sign out" button if authenticated
+ * Shows the auth status while signing in, renewing, expired or after a failed sign in
  * 
  * مكون AppHeader
  * يعرض روابط التنقل وحالة المصادقة
  * يعرض رابط "تسجيل الدخول" إذا لم يكن مصادقاً، زر "تسجيل الخروج" إذا كان مصادقاً
+ * يعرض حالة المصادقة أثناء تسجيل الدخول أو التجديد أو عند الانتهاء أو بعد فشل تسجيل الدخول
  */
 const AppHeader: React.FC = () => {
-  const { isAuthenticated, logout } = useAuth();
+  const { isAuthenticated, status, logout } = useAuth();
+
+  const statusLabel = STATUS_LABELS[status];
 
   return (
     <header style={{ display: 'flex', gap: 12, padding: 12, alignItems: 'center' }}>
       <Link to="/">Home</Link>
       <Link to="/game">Game Demo</Link>
-      <div style={{ marginLeft: 'auto' }}>
-        {isAuthenticated ? (
-          <button onClick={logout}>Sign out</button>
-        ) : (
+      <Authorized policy={ACCOUNT_POLICY}><Link to="/account">Account</Link></Authorized>
+      <div style={{ marginLeft: 'auto', display: 'flex', gap: 12, alignItems: 'center' }}>
+        {statusLabel && (
+          <span role="status" style={{ color: status === 'error' ? '#d32f2f' : '#666', fontSize: '14px' }}>
+            {statusLabel}
+          </span>
+        )}
+        {isAuthenticated && <button onClick={() => logout()}>Sign out</button>}
+        {!isAuthenticated && status !== 'initializing' && status !== 'authenticating' && (
           <Link to="/login">Sign in</Link>
         )}
       </div>
@@ -67,6 +102,11 @@ const AppHeader: React.FC = () => {
   );
 };
 
+interface AppProps {
+  authService: AuthService;     // Built by index.tsx from the runtime config / تنشئها index.tsx من تكوين وقت التشغيل
+  idlePolicy?: IdlePolicy;      // Defaults to the policy from runtime config / الافتراضي هو السياسة من التكوين
+}
+
 /**
  * Main App Component
  * Sets up the application structure with routing and authentication
@@ -74,71 +114,98 @@ const AppHeader: React.FC = () => {
  * المكون الرئيسي للتطبيق
  * يقوم بإعداد بنية التطبيق مع التوجيه والمصادقة
  */
-const App: React.FC = () => (
+const App: React.FC<AppProps> = ({ authService, idlePolicy }) => (
   <BrowserRouter>
     {/* 
       AuthProvider wraps the entire app to provide authentication context
       All child components can access auth state via useAuth() hook
+      and the service itself via useAuthService()
       
       AuthProvider يغلف التطبيق بالكامل لتوفير سياق المصادقة
       يمكن لجميع المكونات الفرعية الوصول إلى حالة المصادقة عبر hook useAuth()
+      والخدمة نفسها عبر useAuthService()
     */}
-    <AuthProvider>
-      <div className="App">
-        <AppHeader />
-        <main className="app-content">
-          <Routes>
-            {/* 
-              PUBLIC ROUTES - No authentication required
-              These routes are accessible to everyone
+    <AuthProvider authService={authService}>
+      {/* 
+        IdleProvider signs the user out after the configured inactivity timeout
+        IdleProvider يسجل خروج المستخدم بعد مهلة عدم النشاط المحددة
+      */}
+      <IdleProvider policy={idlePolicy}>
+        <div className="App">
+          <AppHeader />
+          {/* Countdown modal shown when the session is about to expire / نافذة العد التنازلي عند قرب انتهاء الجلسة */}
+          <SessionExpiryDialog />
+          {/* Shown when SBC reports a sign-out / session change and sessionChangeAction is 'prompt' / يظهر عند تغيير جلسة SBC */}
+          <SessionChangedDialog />
+          {/* Warning shown before the inactivity timeout / تحذير يظهر قبل مهلة عدم النشاط */}
+          <IdleWarningDialog />
+          <main className="app-content">
+            <Routes>
+              {/* 
+                PUBLIC ROUTES - No authentication required
+                These routes are accessible to everyone
               
-              المسارات العامة - لا تتطلب المصادقة
-              هذه المسارات متاحة للجميع
-            */}
-            <Route path="/login" element={<Login />} />
-            <Route path="/auth/callback" element={<AuthCallback />} />
-            <Route path="/silent-renew" element={<SilentRenew />} />
+                المسارات العامة - لا تتطلب المصادقة
+                هذه المسارات متاحة للجميع
+              */}
+              <Route path="/login" element={<Login />} />
+              <Route path="/auth/callback" element={<AuthCallback />} />
+              <Route path="/auth/callback/:provider" element={<AuthCallback />} />
+              <Route path="/auth/popup-callback" element={<PopupCallback />} />
+              <Route path="/silent-renew" element={<SilentRenew />} />
+              <Route path="/signout-callback" element={<SignoutCallback />} />
+              <Route path="/signed-out" element={<SignedOut />} />
 
-            {/* 
-              PROTECTED ROUTES - Require authentication
-              ProtectedRoute component checks if user is authenticated
-              If not authenticated, redirects to /login and saves returnUrl
+              {/* 
+                PROTECTED ROUTES - Require authentication
+                ProtectedRoute component checks if user is authenticated
+                If not authenticated, redirects to /login with the return location
               
-              المسارات المحمية - تتطلب المصادقة
-              مكون ProtectedRoute يتحقق من أن المستخدم مصادق عليه
-              إذا لم يكن مصادقاً، يعيد التوجيه إلى /login ويحفظ returnUrl
-            */}
-            <Route
-              path="/"
-              element={
-                <ProtectedRoute>
-                  <div style={{ padding: 24 }}>
-                    <h1>Welcome</h1>
-                    <p>This area is protected. Use the header to explore.</p>
-                  </div>
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/game"
-              element={
-                <ProtectedRoute>
-                  <Game />
-                </ProtectedRoute>
-              }
-            />
+                المسارات المحمية - تتطلب المصادقة
+                مكون ProtectedRoute يتحقق من أن المستخدم مصادق عليه
+                إذا لم يكن مصادقاً، يعيد التوجيه إلى /login مع موقع العودة
+              */}
+              <Route
+                path="/"
+                element={
+                  <ProtectedRoute>
+                    <div style={{ padding: 24 }}>
+                      <h1>Welcome</h1>
+                      <p>This area is protected. Use the header to explore.</p>
+                    </div>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/game"
+                element={
+                  <ProtectedRoute>
+                    <Game />
+                  </ProtectedRoute>
+                }
+              />
+              {/* Account and session inspector - signed-in users without the policy get 403 / فاحص الحساب والجلسة */}
+              <Route
+                path="/account"
+                element={
+                  <ProtectedRoute policy={ACCOUNT_POLICY}>
+                    <AccountPage />
+                  </ProtectedRoute>
+                }
+              />
 
-            {/* 
-              CATCH-ALL ROUTE - Redirects unknown paths to home
-              Any URL that doesn't match above routes will redirect to "/"
+              {/* 
+                CATCH-ALL ROUTE - Redirects unknown paths to home
+                Any URL that doesn't match above routes will redirect to "/"
               
-              مسار شامل - يعيد توجيه المسارات غير المعروفة إلى الصفحة الرئيسية
-              أي عنوان URL لا يطابق المسارات أعلاه سيتم إعادة توجيهه إلى "/"
-            */}
-            <Route path="*" element={<Navigate to="/" replace />} />
-          </Routes>
-        </main>
-      </div>
+                مسار شامل - يعيد توجيه المسارات غير المعروفة إلى الصفحة الرئيسية
+                أي عنوان URL لا يطابق المسارات أعلاه سيتم إعادة توجيهه إلى "/"
+              */}
+              <Route path="*" element={<Navigate to="/" replace />} />
+            </Routes>
+          </main>
+        </div>
+      </IdleProvider>
     </AuthProvider>
   </BrowserRouter>
 );
@@ -0,0 +1,63 @@
+/**
+ * ============================================================================
+ * ACCESS DENIED COMPONENT - AccessDenied.tsx
+ * ============================================================================
+ *
+ * This component displays the 403 "Access denied" page.
+ * It is rendered by ProtectedRoute when the user is signed in but does not
+ * have the roles/claims required by the route.
+ *
+ * مكون رفض الوصول - AccessDenied.tsx
+ * يعرض هذا المكون صفحة 403 "تم رفض الوصول".
+ * يتم عرضه بواسطة ProtectedRoute عندما يكون المستخدم مسجلاً الدخول ولكن
+ * لا يملك الأدوار/المطالبات المطلوبة للمسار.
+ *
+ * ============================================================================
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from './contexts/AuthContext';
+import { useUser } from './claims';
+
+/**
+ * AccessDenied Component
+ * Shows a 403 message with a link home and a sign-out option
+ * (so the user can switch to an account with more permissions)
+ *
+ * مكون AccessDenied
+ * يعرض رسالة 403 مع رابط للصفحة الرئيسية وخيار لتسجيل الخروج
+ * (حتى يتمكن المستخدم من التبديل إلى حساب بصلاحيات أكثر)
+ */
+const AccessDenied: React.FC = () => {
+  const { logout } = useAuth();
+  const user = useUser();
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      minHeight: '100vh',
+      padding: '20px'
+    }}>
+      <h1 style={{ color: '#d32f2f', fontSize: '48px', margin: 0 }}>403</h1>
+      <h2 style={{ color: '#d32f2f', marginBottom: '16px' }}>Access denied</h2>
+      <p style={{ color: '#666', marginBottom: '8px' }}>
+        You do not have permission to view this page.
+      </p>
+      {user?.name && (
+        <p style={{ color: '#999', fontSize: '14px' }}>
+          Signed in as {user.name}
+        </p>
+      )}
+      <div style={{ display: 'flex', gap: 12, marginTop: 16 }}>
+        <Link to="/">Go to home page</Link>
+        <button onClick={() => logout()}>Sign in with a different account</button>
+      </div>
+    </div>
+  );
+};
+
+export default AccessDenied;
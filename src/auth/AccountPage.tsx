@@ -0,0 +1,217 @@
+/**
+ * ============================================================================
+ * ACCOUNT PAGE COMPONENT - AccountPage.tsx
+ * ============================================================================
+ *
+ * This page shows what the app knows about the signed-in user and the
+ * session, so developers and support staff no longer decode tokens from
+ * localStorage by hand. It is built on AuthContext only.
+ *
+ * It shows:
+ * - Profile claims and granted scopes
+ * - Access token issue / expiry time with a live countdown
+ * - Session state (identity provider, expiry status, last renewal error)
+ *
+ * And offers:
+ * - "Renew now": silent renew (refresh token or iframe)
+ * - "Sign out locally": removes this app's tokens, the SBC session stays
+ * - "Copy decoded token": header and payload as JSON, signatures redacted
+ *
+ * مكون صفحة الحساب - AccountPage.tsx
+ * تعرض هذه الصفحة ما يعرفه التطبيق عن المستخدم المسجل والجلسة، حتى لا يحتاج
+ * المطورون وفريق الدعم إلى فك ترميز الرموز من localStorage يدوياً.
+ * مبنية على AuthContext فقط.
+ *
+ * تعرض:
+ * - مطالبات الملف الشخصي والنطاقات الممنوحة
+ * - وقت إصدار / انتهاء رمز الوصول مع عد تنازلي مباشر
+ * - حالة الجلسة (موفر الهوية، حالة الانتهاء، آخر خطأ تجديد)
+ *
+ * وتوفر:
+ * - "التجديد الآن": تجديد صامت (رمز التحديث أو iframe)
+ * - "تسجيل الخروج محلياً": يزيل رموز هذا التطبيق، تبقى جلسة SBC
+ * - "نسخ الرمز المفكوك": الرأس والحمولة كـ JSON، مع حجب التوقيعات
+ *
+ * ============================================================================
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useUser } from './claims';
+import { useAuth, useAuthService } from './contexts/AuthContext';
+import { formatCountdown, getSecondsUntil } from './countdown';
+import { decodeToken, getDecodedTokens } from './tokenInspector';
+
+const sectionStyle: React.CSSProperties = {
+  marginBottom: '24px'
+};
+
+const tableStyle: React.CSSProperties = {
+  borderCollapse: 'collapse',
+  width: '100%',
+  fontSize: '14px'
+};
+
+const cellStyle: React.CSSProperties = {
+  borderBottom: '1px solid #eee',
+  padding: '6px 8px',
+  textAlign: 'left',
+  verticalAlign: 'top'
+};
+
+/**
+ * Format Epoch Seconds
+ * Local date and time of a token timestamp ('-' when missing)
+ *
+ * تنسيق ثواني epoch
+ * التاريخ والوقت المحلي لطابع زمني للرمز ('-' عند غيابه)
+ */
+const formatTime = (epochSeconds: unknown): string =>
+  typeof epochSeconds === 'number' ? new Date(epochSeconds * 1000).toLocaleString() : '-';
+
+/**
+ * Format Claim Value
+ * Strings as-is, everything else (arrays, numbers, objects) as JSON
+ *
+ * تنسيق قيمة المطالبة
+ * النصوص كما هي، وكل ما عداها (مصفوفات، أرقام، كائنات) كـ JSON
+ */
+const formatClaim = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * AccountPage Component
+ * Render inside ProtectedRoute - the user is always signed in here
+ *
+ * مكون AccountPage
+ * يُعرض داخل ProtectedRoute - المستخدم مسجل الدخول دائماً هنا
+ */
+const AccountPage: React.FC = () => {
+  const { user, status, expiryStatus, renewError, sessionChange, renewSession, logout } = useAuth();
+  const authService = useAuthService();
+  const claims = useUser();
+  const [secondsLeft, setSecondsLeft] = useState(() => getSecondsUntil(user?.expires_at));
+  const [isRenewing, setIsRenewing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const accessToken = useMemo(() => decodeToken(user?.access_token), [user]);
+  const provider = authService.getProviders().find((p) => p.id === authService.getActiveProviderId());
+
+  // Tick the countdown every second / تحديث العد التنازلي كل ثانية
+  useEffect(() => {
+    setSecondsLeft(getSecondsUntil(user?.expires_at));
+    const interval = setInterval(() => {
+      setSecondsLeft(getSecondsUntil(user?.expires_at));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [user]);
+
+  if (!user || !claims) {
+    return null;
+  }
+
+  /**
+   * Handle "Renew now"
+   * Forces a silent renew - the new tokens show up through AuthContext
+   *
+   * معالجة "التجديد الآن"
+   * يفرض تجديداً صامتاً - تظهر الرموز الجديدة عبر AuthContext
+   */
+  const handleRenew = async () => {
+    setIsRenewing(true);
+    setMessage(null);
+    setError(null);
+    try {
+      await renewSession();
+      setMessage('Session renewed');
+    } catch (err: any) {
+      setError(err.message || 'Could not renew your session');
+    } finally {
+      setIsRenewing(false);
+    }
+  };
+
+  /**
+   * Handle "Copy decoded token"
+   * Copies the decoded id_token and access_token - never the raw tokens
+   *
+   * معالجة "نسخ الرمز المفكوك"
+   * ينسخ id_token و access_token المفكوكين - وليس الرموز الخام أبداً
+   */
+  const handleCopy = async () => {
+    setMessage(null);
+    setError(null);
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(getDecodedTokens(user), null, 2));
+      setMessage('Decoded token copied (signatures redacted)');
+    } catch (err) {
+      console.error('Error copying decoded token:', err);
+      setError('Could not copy to the clipboard');
+    }
+  };
+
+  return (
+    <div style={{ padding: 24, maxWidth: 800 }}>
+      <h1 style={{ marginBottom: '16px' }}>Account</h1>
+
+      <section style={sectionStyle}>
+        <h2>Session</h2>
+        <table style={tableStyle}>
+          <tbody>
+            <tr><th style={cellStyle}>Identity provider</th><td style={cellStyle}>{provider?.displayName ?? '-'}</td></tr>
+            <tr><th style={cellStyle}>Status</th><td style={cellStyle}>{status}</td></tr>
+            <tr><th style={cellStyle}>Expiry status</th><td style={cellStyle}>{expiryStatus}</td></tr>
+            <tr><th style={cellStyle}>Issued at</th><td style={cellStyle}>{formatTime(accessToken?.payload.iat)}</td></tr>
+            <tr><th style={cellStyle}>Expires at</th><td style={cellStyle}>{formatTime(user.expires_at)}</td></tr>
+            <tr><th style={cellStyle}>Expires in</th><td style={cellStyle}>{formatCountdown(secondsLeft)}</td></tr>
+            <tr><th style={cellStyle}>Refresh token</th><td style={cellStyle}>{user.refresh_token ? 'yes' : 'no'}</td></tr>
+            {sessionChange && (
+              <tr><th style={cellStyle}>Session change</th><td style={cellStyle}>{sessionChange}</td></tr>
+            )}
+            {renewError && (
+              <tr><th style={cellStyle}>Last renewal error</th><td style={{ ...cellStyle, color: '#d32f2f' }}>{renewError.message}</td></tr>
+            )}
+          </tbody>
+        </table>
+      </section>
+
+      <section style={sectionStyle}>
+        <h2>Granted scopes</h2>
+        <p style={{ fontFamily: 'monospace' }}>{user.scopes.join(' ')}</p>
+      </section>
+
+      <section style={sectionStyle}>
+        <h2>Profile claims</h2>
+        <table style={tableStyle}>
+          <tbody>
+            {Object.keys(claims).sort().map((name) => (
+              <tr key={name}>
+                <th style={cellStyle}>{name}</th>
+                <td style={{ ...cellStyle, fontFamily: 'monospace', wordBreak: 'break-all' }}>{formatClaim(claims[name])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      {message && (
+        <p role="status" style={{ color: '#666', fontSize: '14px' }}>{message}</p>
+      )}
+      {error && (
+        <p role="alert" style={{ color: '#d32f2f', fontSize: '14px' }}>{error}</p>
+      )}
+      <div style={{ display: 'flex', gap: 12 }}>
+        <button onClick={handleRenew} disabled={isRenewing}>
+          {isRenewing ? 'Renewing...' : 'Renew now'}
+        </button>
+        <button onClick={handleCopy}>Copy decoded token</button>
+        <button onClick={() => logout({ scope: 'local' })} disabled={isRenewing}>
+          Sign out locally
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AccountPage;
@@ -19,7 +19,8 @@
  * 3. Calls authService.completeLogin() → processes callback URL
  * 4. authService exchanges authorization code for access token
  * 5. User is stored in localStorage via AuthContext
- * 6. Redirects to returnUrl (saved in sessionStorage) or home
+ * 6. Redirects to the return location carried in the OIDC state (validated) or home
+ * 7. On failure → typed AuthError → AuthErrorScreen (try again / different account / diagnostic ID)
  * 
  * التدفق:
  * 1. خادم الهوية يعيد التوجيه إلى /auth/callback?code=xxx&state=yyy
@@ -27,26 +28,35 @@
  * 3. يستدعي authService.completeLogin() → يعالج عنوان URL للاستدعاء
  * 4. authService يستبدل رمز التفويض برمز الوصول
  * 5. يتم حفظ المستخدم في localStorage عبر AuthContext
- * 6. يعيد التوجيه إلى returnUrl (المحفوظ في sessionStorage) أو الصفحة الرئيسية
+ * 6. يعيد التوجيه إلى موقع العودة المحمول في حالة OIDC (بعد التحقق) أو الصفحة الرئيسية
+ * 7. عند الفشل → AuthError مكتوب → AuthErrorScreen (حاول مرة أخرى / حساب مختلف / معرف التشخيص)
  * ============================================================================
  */
 
 import React, { useEffect, useState, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
-import authService from './authService';
+import { useNavigate, useParams } from 'react-router-dom';
+import { SigninState } from './authService';
+import { useAuthService } from './contexts/AuthContext';
+import AuthErrorScreen from './AuthErrorScreen';
+import { AuthError, toAuthError } from './errors/authErrors';
+import { resolveReturnLocation } from './returnLocation';
 
 /**
  * AuthCallback Component
  * Handles the OIDC callback after authentication
  * Processes the authorization code and redirects user to their destination
+ * Partner providers call back on /auth/callback/:provider, SBC on /auth/callback
  * 
  * مكون AuthCallback
  * يتعامل مع استدعاء OIDC بعد المصادقة
  * يعالج رمز التفويض ويعيد توجيه المستخدم إلى وجهته
+ * الموفرون الشركاء يستدعون /auth/callback/:provider، و SBC يستدعي /auth/callback
  */
 const AuthCallback: React.FC = () => {
   const navigate = useNavigate();
-  const [error, setError] = useState<string | null>(null);
+  const { provider } = useParams();
+  const authService = useAuthService();
+  const [error, setError] = useState<AuthError | null>(null);
   
   // Prevent double processing in React Strict Mode (development mode double renders)
   // منع المعالجة المزدوجة في وضع React Strict Mode (وضع التطوير يعرض مرتين)
@@ -58,6 +68,13 @@ const AuthCallback: React.FC = () => {
     if (hasProcessed.current) return;
     hasProcessed.current = true;
 
+    // Only same-origin app paths are accepted - anything else goes home
+    // يتم قبول مسارات التطبيق من نفس الأصل فقط - أي شيء آخر يذهب إلى الصفحة الرئيسية
+    const navigateToReturnLocation = (returnTo?: unknown) => {
+      const { state, ...to } = resolveReturnLocation(returnTo);
+      navigate(to, { replace: true, state });
+    };
+
     /**
      * Complete Authentication Flow
      * Processes the OIDC callback and redirects user
@@ -71,82 +88,36 @@ const AuthCallback: React.FC = () => {
         // This reads the code from URL, exchanges it with Identity Server for tokens
         // معالجة عنوان URL للاستدعاء: استبدال رمز التفويض بالرموز المميزة
         // يقرأ هذا الرمز من عنوان URL، يستبدله مع خادم الهوية بالرموز المميزة
-        await authService.completeLogin();
-
-        // Small delay to ensure AuthContext has updated with the new user
-        await new Promise(resolve => setTimeout(resolve, 200));
+        const user = await authService.completeLogin(provider);
 
         // Verify authentication succeeded
         const isAuth = await authService.isAuthenticated();
         if (!isAuth) {
-          throw new Error('Authentication verification failed');
+          throw new AuthError('unknown', 'Authentication verification failed');
         }
 
-        // Get return URL and navigate
-        const returnUrl = sessionStorage.getItem('returnUrl') || '/';
-        sessionStorage.removeItem('returnUrl');
-        navigate(returnUrl);
-      } catch (err: any) {
-        console.error('Authentication callback error:', err);
-        
-        // Check if user is actually authenticated despite the error
-        // This can happen if:
-        // 1. Callback was already processed (React Strict Mode double render)
-        // 2. URL parameters were already consumed
-        const isAuth = await authService.isAuthenticated();
-        
-        if (isAuth) {
-          // User is authenticated - error was likely "already processed"
-          // Just redirect to return URL silently
-          const returnUrl = sessionStorage.getItem('returnUrl') || '/';
-          sessionStorage.removeItem('returnUrl');
-          navigate(returnUrl);
-        } else {
-          // Real authentication error - show error message
-          const errorMessage = err.message || err.toString() || 'Authentication failed';
-          
-          // Check if it's a "no state in response" error (callback already processed)
-          if (errorMessage.includes('state') || errorMessage.includes('already')) {
-            // Likely already processed, check one more time after delay
-            await new Promise(resolve => setTimeout(resolve, 500));
-            const retryAuth = await authService.isAuthenticated();
-            
-            if (retryAuth) {
-              const returnUrl = sessionStorage.getItem('returnUrl') || '/';
-              sessionStorage.removeItem('returnUrl');
-              navigate(returnUrl);
-              return;
-            }
-          }
-          
-          setError(errorMessage);
-          
-          // Redirect to home after showing error
-          setTimeout(() => {
-            navigate('/');
-          }, 3000);
+        navigateToReturnLocation((user?.state as SigninState | undefined)?.returnTo);
+      } catch (err) {
+        const authError = toAuthError(err);
+
+        // A state mismatch with a signed-in user means this callback was already
+        // processed (back button, reload) - the state is gone, just continue home
+        // عدم تطابق الحالة مع مستخدم مسجل يعني أن هذا الاستدعاء تمت معالجته بالفعل
+        // (زر الرجوع، إعادة التحميل) - الحالة لم تعد موجودة، فقط تابع إلى الصفحة الرئيسية
+        if (authError.kind === 'stateMismatch' && await authService.isAuthenticated()) {
+          navigateToReturnLocation();
+          return;
         }
+
+        setError(authError);
       }
     };
 
     completeAuthentication();
-  }, [navigate]);
+  }, [navigate, provider, authService]);
 
   if (error) {
-    return (
-      <div style={{
-        display: 'flex',
-        flexDirection: 'column',
-        alignItems: 'center',
-        justifyContent: 'center',
-        minHeight: '100vh',
-        padding: '20px'
-      }}>
-        <h2 style={{ color: '#d32f2f', marginBottom: '16px' }}>Authentication Error</h2>
-        <p style={{ color: '#666', marginBottom: '8px' }}>{error}</p>
-        <p style={{ color: '#999', fontSize: '14px' }}>Redirecting to home page...</p>
-      </div>
-    );
+    return <AuthErrorScreen error={error} />;
   }
 
   return (
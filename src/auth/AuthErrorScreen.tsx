@@ -0,0 +1,123 @@
+/**
+ * ============================================================================
+ * AUTH ERROR SCREEN COMPONENT - AuthErrorScreen.tsx
+ * ============================================================================
+ *
+ * This component displays the recovery page for a failed login.
+ * It explains the failure based on the error kind (see errors/authErrors.ts),
+ * offers "Try again" and "Sign in with a different account", and shows a
+ * diagnostic ID the user can copy and send to support.
+ *
+ * مكون شاشة خطأ المصادقة - AuthErrorScreen.tsx
+ * يعرض هذا المكون صفحة الاستعادة لتسجيل دخول فاشل.
+ * يشرح الفشل بناءً على نوع الخطأ (انظر errors/authErrors.ts)،
+ * ويقدم "حاول مرة أخرى" و"تسجيل الدخول بحساب مختلف"، ويعرض
+ * معرف تشخيص يمكن للمستخدم نسخه وإرساله إلى الدعم.
+ *
+ * ============================================================================
+ */
+
+import React, { useState } from 'react';
+import { useAuth } from './contexts/AuthContext';
+import { AuthError, AuthErrorKind } from './errors/authErrors';
+import { ReturnLocation } from './returnLocation';
+
+interface AuthErrorScreenProps {
+  error: AuthError;
+  returnTo?: ReturnLocation;        // Page to come back to after signing in / الصفحة للعودة إليها بعد تسجيل الدخول
+}
+
+// Title and advice shown for each error kind / العنوان والنصيحة المعروضة لكل نوع خطأ
+const ERROR_DETAILS: Record<AuthErrorKind, { title: string; advice: string }> = {
+  accessDenied: {
+    title: 'Sign in was denied',
+    advice: 'Your account is not allowed to use this application. Try a different account or contact support.',
+  },
+  stateMismatch: {
+    title: 'Sign in link expired',
+    advice: 'This page was opened from an old or already used sign-in link. Please sign in again.',
+  },
+  expiredCode: {
+    title: 'Sign in timed out',
+    advice: 'The sign-in took too long to complete. Please sign in again.',
+  },
+  network: {
+    title: 'Cannot reach the sign-in server',
+    advice: 'Check your internet connection, then try again.',
+  },
+  clockSkew: {
+    title: "Your device's clock is wrong",
+    advice: 'Set your date, time and time zone to update automatically, then try again.',
+  },
+  stepUp: {
+    title: 'Additional verification required',
+    advice: 'This action needs a recent sign-in with the required method. Please sign in again.',
+  },
+  consentRequired: {
+    title: 'Additional access required',
+    advice: 'This feature needs your permission to use more of your data. Please sign in again to grant it.',
+  },
+  unknown: {
+    title: 'Authentication Error',
+    advice: 'Something went wrong while signing you in. Please try again.',
+  },
+};
+
+/**
+ * AuthErrorScreen Component
+ * Recovery page rendered by AuthCallback when completing the login fails,
+ * and by ProtectedRoute while the auth status is 'error'
+ *
+ * مكون AuthErrorScreen
+ * صفحة الاستعادة التي يعرضها AuthCallback عند فشل إكمال تسجيل الدخول،
+ * و ProtectedRoute أثناء كون حالة المصادقة 'error'
+ */
+const AuthErrorScreen: React.FC<AuthErrorScreenProps> = ({ error, returnTo }) => {
+  const { login } = useAuth();
+  const [isCopied, setIsCopied] = useState(false);
+  const { title, advice } = ERROR_DETAILS[error.kind];
+
+  /**
+   * Handle Copy
+   * Copies the diagnostic ID so the user can paste it into a support request
+   *
+   * معالجة النسخ
+   * ينسخ معرف التشخيص حتى يتمكن المستخدم من لصقه في طلب دعم
+   */
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(error.diagnosticId);
+      setIsCopied(true);
+    } catch (err) {
+      console.error('Error copying diagnostic ID:', err);
+    }
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      minHeight: '100vh',
+      padding: '20px'
+    }}>
+      <h2 style={{ color: '#d32f2f', marginBottom: '16px' }}>{title}</h2>
+      <p style={{ color: '#666', marginBottom: '8px', maxWidth: '480px', textAlign: 'center' }}>{advice}</p>
+      <p style={{ color: '#999', fontSize: '14px' }}>{error.message}</p>
+      <div style={{ display: 'flex', gap: 12, marginTop: 16 }}>
+        <button onClick={() => login({ returnTo })}>Try again</button>
+        {/* Ask Identity Server for the account picker instead of reusing its session / اطلب من خادم الهوية اختيار الحساب بدلاً من إعادة استخدام جلسته */}
+        <button onClick={() => login({ returnTo, prompt: 'select_account' })}>Sign in with a different account</button>
+      </div>
+      <p style={{ color: '#999', fontSize: '12px', marginTop: 24 }}>
+        Diagnostic ID: <code style={{ userSelect: 'all' }}>{error.diagnosticId}</code>{' '}
+        <button onClick={handleCopy} style={{ fontSize: '12px' }}>
+          {isCopied ? 'Copied' : 'Copy'}
+        </button>
+      </p>
+    </div>
+  );
+};
+
+export default AuthErrorScreen;
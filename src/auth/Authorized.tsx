@@ -0,0 +1,39 @@
+/**
+ * ============================================================================
+ * AUTHORIZED COMPONENT - Authorized.tsx
+ * ============================================================================
+ *
+ * This component shows a piece of UI (a button, a menu item, a panel) only
+ * when the signed-in user satisfies a policy (see policies.ts).
+ * Use ProtectedRoute for whole pages.
+ *
+ * مكون Authorized - Authorized.tsx
+ * يعرض هذا المكون جزءاً من الواجهة (زر، عنصر قائمة، لوحة) فقط عندما يستوفي
+ * المستخدم المسجل سياسة (انظر policies.ts).
+ * استخدم ProtectedRoute للصفحات الكاملة.
+ *
+ * ============================================================================
+ */
+
+import React, { ReactNode } from 'react';
+import { Policy, useAuthorize } from './policies';
+
+interface AuthorizedProps {
+  policy: string | Policy;         // Policy name or inline predicate / اسم السياسة أو دالة تحقق مضمنة
+  fallback?: ReactNode;            // Rendered when not authorized (default: nothing) / يُعرض عند عدم التفويض
+  children: ReactNode;
+}
+
+/**
+ * Authorized Component
+ * Renders children when authorized, otherwise the fallback
+ *
+ * مكون Authorized
+ * يعرض children عند التفويض، وإلا البديل
+ */
+const Authorized: React.FC<AuthorizedProps> = ({ policy, fallback = null, children }) => {
+  const isAllowed = useAuthorize(policy);
+  return <>{isAllowed ? children : fallback}</>;
+};
+
+export default Authorized;
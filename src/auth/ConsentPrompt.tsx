@@ -0,0 +1,97 @@
+/**
+ * ============================================================================
+ * CONSENT PROMPT COMPONENT - ConsentPrompt.tsx
+ * ============================================================================
+ *
+ * This component asks the user to grant the API scopes they have not
+ * consented to yet (incremental consent). It is rendered where an API call
+ * failed with ConsentRequiredError and only requests consent on a click,
+ * since browsers block popups that are not opened from a user action.
+ *
+ * مكون طلب الموافقة - ConsentPrompt.tsx
+ * يطلب هذا المكون من المستخدم منح نطاقات API التي لم يوافق عليها بعد
+ * (موافقة تدريجية). يُعرض حيث فشل استدعاء API بـ ConsentRequiredError
+ * ولا يطلب الموافقة إلا عند النقر، لأن المتصفحات تحظر النوافذ المنبثقة
+ * التي لا تُفتح من إجراء المستخدم.
+ *
+ * ============================================================================
+ * FLOW:
+ * 1. API call → ConsentRequiredError (scopes) → <ConsentPrompt scopes={error.scopes} />
+ * 2. User clicks → requestScopes() → consent popup (redirect when blocked)
+ * 3. All scopes granted → onGranted() (e.g. retry the request)
+ *
+ * التدفق:
+ * 1. استدعاء API → ConsentRequiredError (النطاقات) → <ConsentPrompt scopes={error.scopes} />
+ * 2. ينقر المستخدم → requestScopes() → نافذة الموافقة المنبثقة (إعادة توجيه عند الحظر)
+ * 3. منح جميع النطاقات → onGranted() (مثل إعادة محاولة الطلب)
+ * ============================================================================
+ */
+
+import React, { useState } from 'react';
+import { useAuth } from './contexts/AuthContext';
+import { getMissingScopes } from './apiTokens';
+import { toAuthError } from './errors/authErrors';
+
+interface ConsentPromptProps {
+  scopes: string[];                 // Scopes of the ConsentRequiredError / نطاقات ConsentRequiredError
+  onGranted?: () => void;           // Runs once consent is given (e.g. retry the request) / يعمل بعد منح الموافقة
+}
+
+/**
+ * ConsentPrompt Component
+ * Shown where an API call failed with ConsentRequiredError - consent is only asked
+ * for when the user clicks, so the popup is not blocked
+ *
+ * مكون ConsentPrompt
+ * يُعرض حيث فشل استدعاء API بـ ConsentRequiredError - لا تُطلب الموافقة إلا عندما
+ * ينقر المستخدم، حتى لا يتم حظر النافذة المنبثقة
+ */
+const ConsentPrompt: React.FC<ConsentPromptProps> = ({ scopes, onGranted }) => {
+  const { requestScopes } = useAuth();
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Handle Grant
+   * Opens the consent popup (redirect when blocked), then runs onGranted
+   *
+   * معالجة المنح
+   * يفتح نافذة الموافقة المنبثقة (إعادة توجيه عند الحظر)، ثم يشغل onGranted
+   */
+  const handleGrant = async () => {
+    setIsRequesting(true);
+    setError(null);
+    try {
+      const user = await requestScopes(scopes);
+      if (!user) {
+        // Redirecting to Identity Server / جارٍ إعادة التوجيه إلى خادم الهوية
+        return;
+      }
+      if (getMissingScopes(user, scopes).length > 0) {
+        setError('Access was not granted.');
+      } else {
+        onGranted?.();
+      }
+      setIsRequesting(false);
+    } catch (err) {
+      const authError = toAuthError(err);
+      console.error(`Consent request failed [${authError.diagnosticId}]:`, authError.cause || authError);
+      setError(authError.message);
+      setIsRequesting(false);
+    }
+  };
+
+  return (
+    <div role="alert" style={{ padding: '16px', border: '1px solid #ddd', borderRadius: '4px', maxWidth: '480px' }}>
+      <p style={{ marginTop: 0 }}>This feature needs your permission to access more of your data.</p>
+      {error && (
+        <p style={{ color: '#d32f2f', fontSize: '14px' }}>{error}</p>
+      )}
+      <button onClick={handleGrant} disabled={isRequesting}>
+        {isRequesting ? 'Waiting for consent...' : 'Grant access'}
+      </button>
+    </div>
+  );
+};
+
+export default ConsentPrompt;
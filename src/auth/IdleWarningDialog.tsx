@@ -0,0 +1,72 @@
+/**
+ * ============================================================================
+ * IDLE WARNING DIALOG COMPONENT - IdleWarningDialog.tsx
+ * ============================================================================
+ *
+ * This component warns the user shortly before the inactivity timeout signs
+ * them out. Any interaction (or the "I'm still here" button) resets the timer.
+ * It is driven by useIdle() from IdleContext.
+ *
+ * مكون نافذة تحذير الخمول - IdleWarningDialog.tsx
+ * يحذر هذا المكون المستخدم قبل وقت قصير من أن تسجل مهلة عدم النشاط خروجه.
+ * أي تفاعل (أو زر "ما زلت هنا") يعيد ضبط المؤقت.
+ * يتم التحكم فيه بواسطة useIdle() من IdleContext.
+ *
+ * ============================================================================
+ */
+
+import React from 'react';
+import { useIdle } from './contexts/IdleContext';
+import { formatCountdown } from './countdown';
+
+/**
+ * IdleWarningDialog Component
+ * Renders nothing unless the idle cutoff is close
+ *
+ * مكون IdleWarningDialog
+ * لا يعرض شيئاً إلا إذا كان انقطاع الخمول قريباً
+ */
+const IdleWarningDialog: React.FC = () => {
+  const { isWarning, secondsRemaining, reset } = useIdle();
+
+  if (!isWarning) {
+    return null;
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="idle-warning-title"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'rgba(0, 0, 0, 0.5)',
+        zIndex: 1000
+      }}
+    >
+      <div style={{
+        background: '#fff',
+        borderRadius: '8px',
+        padding: '24px',
+        maxWidth: '400px',
+        width: '90%',
+        textAlign: 'center'
+      }}>
+        <h2 id="idle-warning-title" style={{ marginBottom: '16px' }}>Are you still there?</h2>
+        <p style={{ color: '#666', marginBottom: '8px' }}>
+          You have been inactive for a while. You will be signed out in
+        </p>
+        <p style={{ fontSize: '32px', fontWeight: 'bold', margin: '0 0 16px' }}>
+          {formatCountdown(secondsRemaining)}
+        </p>
+        <button onClick={reset}>I'm still here</button>
+      </div>
+    </div>
+  );
+};
+
+export default IdleWarningDialog;
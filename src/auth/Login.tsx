@@ -5,36 +5,40 @@
  * 
  * This component displays the login page UI and handles the login initiation.
  * When user clicks "Sign In", it redirects them to the Identity Server.
+ * One button is shown per identity provider (config.json "providers"),
+ * the last one used first.
  * 
  * مكون صفحة تسجيل الدخول - Login.tsx
  * يعرض هذا المكون واجهة صفحة تسجيل الدخول ويتعامل مع بدء تسجيل الدخول.
  * عندما ينقر المستخدم على "تسجيل الدخول"، يعيد توجيهه إلى خادم الهوية.
+ * يتم عرض زر لكل موفر هوية ("providers" في config.json)، وآخر موفر مستخدم أولاً.
  * 
  * ============================================================================
  * FLOW:
  * 1. User visits /login page
- * 2. If already authenticated → redirect to returnUrl or home
- * 3. User clicks "Sign In By SBC" button
- * 4. Calls login() from AuthContext → calls authService.login()
- * 5. authService.login() → redirects browser to Identity Server
+ * 2. If already authenticated → redirect to the return location (from ProtectedRoute) or home
+ * 3. User clicks "Sign In By SBC" (or a partner provider) button
+ * 4. Calls login({ returnTo, provider }) from AuthContext → calls authService.login()
+ * 5. authService.login() → redirects browser to the provider's Identity Server
  * 6. User authenticates on Identity Server
- * 7. Identity Server redirects back to /auth/callback with auth code
+ * 7. Identity Server redirects back to /auth/callback (/auth/callback/<provider>) with auth code
  * 
  * التدفق:
  * 1. المستخدم يزور صفحة /login
- * 2. إذا كان مصادقاً بالفعل → إعادة توجيه إلى returnUrl أو الصفحة الرئيسية
- * 3. المستخدم ينقر على زر "تسجيل الدخول بواسطة SBC"
- * 4. يستدعي login() من AuthContext → يستدعي authService.login()
- * 5. authService.login() → يعيد توجيه المتصفح إلى خادم الهوية
+ * 2. إذا كان مصادقاً بالفعل → إعادة توجيه إلى موقع العودة (من ProtectedRoute) أو الصفحة الرئيسية
+ * 3. المستخدم ينقر على زر "تسجيل الدخول بواسطة SBC" (أو موفر شريك)
+ * 4. يستدعي login({ returnTo, provider }) من AuthContext → يستدعي authService.login()
+ * 5. authService.login() → يعيد توجيه المتصفح إلى خادم الهوية الخاص بالموفر
  * 6. المستخدم يتم التحقق منه على خادم الهوية
- * 7. خادم الهوية يعيد التوجيه إلى /auth/callback مع رمز المصادقة
+ * 7. خادم الهوية يعيد التوجيه إلى /auth/callback (/auth/callback/<provider>) مع رمز المصادقة
  * ============================================================================
  */
 
 import React, { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import './Login.css';
-import { useAuth } from './contexts/AuthContext';
+import { useAuth, useAuthService } from './contexts/AuthContext';
+import { LoginLocationState, resolveReturnLocation } from './returnLocation';
 
 /**
  * Login Component
@@ -47,47 +51,59 @@ const Login: React.FC = () => {
   // Get authentication state and login function from AuthContext
   // الحصول على حالة المصادقة ووظيفة تسجيل الدخول من AuthContext
   const { isAuthenticated, login } = useAuth();
+  const authService = useAuthService();
   const navigate = useNavigate();
-  const [isLoading, setIsLoading] = useState(false);
+  const location = useLocation();
+  const [loadingProvider, setLoadingProvider] = useState<string | null>(null);
+
+  // Page the user was sent here from (set by ProtectedRoute) / الصفحة التي أُرسل منها المستخدم (يعينها ProtectedRoute)
+  const from = (location.state as LoginLocationState | null)?.from;
+
+  // Last used provider first / آخر موفر مستخدم أولاً
+  const [lastUsedProvider] = useState(() => authService.getActiveProviderId());
+  const providers = authService.getProviders();
+  const sortedProviders = [
+    ...providers.filter((provider) => provider.id === lastUsedProvider),
+    ...providers.filter((provider) => provider.id !== lastUsedProvider),
+  ];
 
   /**
    * Effect: Check if user is already authenticated
-   * If authenticated, redirect to returnUrl (saved by ProtectedRoute) or home
+   * If authenticated, redirect to the return location (passed by ProtectedRoute) or home
    * 
    * التأثير: التحقق من أن المستخدم مصادق عليه بالفعل
-   * إذا كان مصادقاً، إعادة التوجيه إلى returnUrl (المحفوظ بواسطة ProtectedRoute) أو الصفحة الرئيسية
+   * إذا كان مصادقاً، إعادة التوجيه إلى موقع العودة (الممرر بواسطة ProtectedRoute) أو الصفحة الرئيسية
    */
   useEffect(() => {
     // If already authenticated, redirect to home
     // إذا كان مصادقاً بالفعل، إعادة التوجيه إلى الصفحة الرئيسية
     if (isAuthenticated) {
-      // Get the URL user was trying to access before login
-      // الحصول على عنوان URL الذي كان المستخدم يحاول الوصول إليه قبل تسجيل الدخول
-      const returnUrl = sessionStorage.getItem('returnUrl') || '/';
-      sessionStorage.removeItem('returnUrl');
-      navigate(returnUrl);
+      // Go to the page user was trying to access before login
+      // الانتقال إلى الصفحة التي كان المستخدم يحاول الوصول إليها قبل تسجيل الدخول
+      const { state, ...to } = resolveReturnLocation(from);
+      navigate(to, { replace: true, state });
     }
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated, navigate, from]);
 
   /**
    * Handle Login Button Click
    * Initiates the OIDC redirect flow by calling authService.login()
-   * This will redirect the browser to Identity Server
+   * This will redirect the browser to the Identity Server of the chosen provider
    * 
    * معالجة النقر على زر تسجيل الدخول
    * يبدأ تدفق إعادة توجيه OIDC عن طريق استدعاء authService.login()
-   * سيؤدي هذا إلى إعادة توجيه المتصفح إلى خادم الهوية
+   * سيؤدي هذا إلى إعادة توجيه المتصفح إلى خادم الهوية الخاص بالموفر المختار
    */
-  const handleLogin = async () => {
-    setIsLoading(true);
+  const handleLogin = async (provider: string) => {
+    setLoadingProvider(provider);
     try {
       // This will redirect browser to Identity Server
       // لا يوجد return هنا لأن المتصفح سيتم إعادة توجيهه
       // سيؤدي هذا إلى إعادة توجيه المتصفح إلى خادم الهوية
-      await login();
+      await login({ returnTo: from, provider });
     } catch (error) {
       console.error('Login error:', error);
-      setIsLoading(false);
+      setLoadingProvider(null);
     }
   };
 
@@ -147,13 +163,21 @@ const Login: React.FC = () => {
           </div>
 
           <div className="login-form">
-            <button
-              onClick={handleLogin}
-              className={`login-button ${isLoading ? 'loading' : ''}`}
-              disabled={isLoading}
-            >
-              {!isLoading && 'Sign In By SBC'}
-            </button>
+            {sortedProviders.map((provider) => {
+              const isLoading = loadingProvider === provider.id;
+              const isLastUsed = providers.length > 1 && provider.id === lastUsedProvider;
+              return (
+                <button
+                  key={provider.id}
+                  onClick={() => handleLogin(provider.id)}
+                  className={`login-button ${isLoading ? 'loading' : ''}`}
+                  disabled={loadingProvider !== null}
+                >
+                  {!isLoading && `Sign In By ${provider.displayName}`}
+                  {!isLoading && isLastUsed && <span className="login-last-used">Last used</span>}
+                </button>
+              );
+            })}
 
             <div className="login-divider">
               <span>Secure Authentication</span>
@@ -0,0 +1,64 @@
+/**
+ * ============================================================================
+ * POPUP CALLBACK COMPONENT - PopupCallback.tsx
+ * ============================================================================
+ * 
+ * This component handles the OIDC callback inside the login popup window.
+ * It passes the callback URL back to the main window (which exchanges the
+ * authorization code for tokens) and the popup closes itself.
+ * 
+ * مكون استدعاء النافذة المنبثقة - PopupCallback.tsx
+ * يتعامل هذا المكون مع استدعاء OIDC داخل نافذة تسجيل الدخول المنبثقة.
+ * يمرر عنوان URL للاستدعاء إلى النافذة الرئيسية (التي تستبدل رمز التفويض
+ * بالرموز المميزة) وتغلق النافذة المنبثقة نفسها.
+ * 
+ * ============================================================================
+ * FLOW:
+ * 1. Main window calls login({ mode: 'popup' }) → signinPopup() opens popup
+ * 2. User authenticates on Identity Server inside the popup
+ * 3. Identity Server redirects popup to /auth/popup-callback?code=xxx&state=yyy
+ * 4. PopupCallback calls authService.completePopupLogin()
+ * 5. Main window receives the URL, gets tokens, fires userLoaded; popup closes
+ * 
+ * التدفق:
+ * 1. النافذة الرئيسية تستدعي login({ mode: 'popup' }) → signinPopup() يفتح نافذة منبثقة
+ * 2. المستخدم يتم التحقق منه على خادم الهوية داخل النافذة المنبثقة
+ * 3. خادم الهوية يعيد توجيه النافذة المنبثقة إلى /auth/popup-callback?code=xxx&state=yyy
+ * 4. PopupCallback يستدعي authService.completePopupLogin()
+ * 5. النافذة الرئيسية تستلم عنوان URL، تحصل على الرموز، تطلق userLoaded؛ تغلق النافذة المنبثقة
+ * ============================================================================
+ */
+
+import React, { useEffect } from 'react';
+import { useAuthService } from './contexts/AuthContext';
+
+/**
+ * PopupCallback Component
+ * Shows a short message while the popup hands the response to the main window
+ * 
+ * مكون PopupCallback
+ * يعرض رسالة قصيرة بينما تسلم النافذة المنبثقة الاستجابة إلى النافذة الرئيسية
+ */
+const PopupCallback: React.FC = () => {
+  const authService = useAuthService();
+
+  useEffect(() => {
+    authService.completePopupLogin()
+      .catch((error) => {
+        console.error('Popup callback error:', error);
+      });
+  }, [authService]);
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      minHeight: '100vh'
+    }}>
+      <p style={{ color: '#666' }}>Completing sign in...</p>
+    </div>
+  );
+};
+
+export default PopupCallback;
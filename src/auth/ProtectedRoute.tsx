@@ -5,42 +5,58 @@
  * 
  * This component protects routes that require authentication.
  * It checks if the user is authenticated before allowing access to protected content.
- * If not authenticated, it saves the attempted URL and redirects to login.
+ * If not authenticated, it passes the attempted location to the login page.
  * After login, user is redirected back to the original URL they tried to access.
+ * Routes can also require roles, claims or a policy - signed-in users
+ * who do not satisfy them get the 403 "Access denied" page.
  * 
  * مكون المسار المحمي - ProtectedRoute.tsx
  * يحمي هذا المكون المسارات التي تتطلب المصادقة.
  * يتحقق من أن المستخدم مصادق عليه قبل السماح بالوصول إلى المحتوى المحمي.
- * إذا لم يكن مصادقاً، يحفظ عنوان URL المحاول ويوجه إلى تسجيل الدخول.
+ * إذا لم يكن مصادقاً، يمرر الموقع المحاول إلى صفحة تسجيل الدخول.
  * بعد تسجيل الدخول، يتم إعادة توجيه المستخدم إلى عنوان URL الأصلي الذي حاول الوصول إليه.
+ * يمكن للمسارات أيضاً أن تتطلب أدواراً أو مطالبات أو سياسة - المستخدمون المسجلون
+ * الذين لا يستوفونها يحصلون على صفحة 403 "تم رفض الوصول".
  * 
  * ============================================================================
  * FLOW:
  * 1. User tries to access protected route (e.g., /game)
  * 2. ProtectedRoute checks isAuthenticated from AuthContext
- * 3. If loading → show loading spinner
- * 4. If not authenticated → save current URL to sessionStorage as 'returnUrl'
- * 5. Redirect to /login
- * 6. After login → AuthCallback reads returnUrl and redirects user back
- * 7. If authenticated → render the protected content
+ * 3. If initializing / authenticating → show loading spinner
+ *    If expired → "session expired" prompt / if the login failed → AuthErrorScreen
+ * 4. If not authenticated → pass current location (path, query, hash, state) as router state
+ * 5. Redirect to /login (Login carries the location through the OIDC state)
+ * 6. After login → AuthCallback validates the location and redirects user back
+ * 7. If authenticated but missing required roles/claims/policy → show AccessDenied (403)
+ * 8. If authenticated and authorized → render the protected content
  * 
  * التدفق:
  * 1. المستخدم يحاول الوصول إلى مسار محمي (مثل /game)
  * 2. ProtectedRoute يتحقق من isAuthenticated من AuthContext
- * 3. إذا كان التحميل → عرض مؤشر التحميل
- * 4. إذا لم يكن مصادقاً → حفظ عنوان URL الحالي في sessionStorage كـ 'returnUrl'
- * 5. إعادة التوجيه إلى /login
- * 6. بعد تسجيل الدخول → AuthCallback يقرأ returnUrl ويعيد توجيه المستخدم
- * 7. إذا كان مصادقاً → عرض المحتوى المحمي
+ * 3. إذا كانت التهيئة / المصادقة جارية → عرض مؤشر التحميل
+ *    إذا انتهت الجلسة → طلب "انتهت الجلسة" / إذا فشل تسجيل الدخول → AuthErrorScreen
+ * 4. إذا لم يكن مصادقاً → تمرير الموقع الحالي (المسار، الاستعلام، #، الحالة) كحالة الموجه
+ * 5. إعادة التوجيه إلى /login (تحمل صفحة تسجيل الدخول الموقع عبر حالة OIDC)
+ * 6. بعد تسجيل الدخول → AuthCallback يتحقق من الموقع ويعيد توجيه المستخدم
+ * 7. إذا كان مصادقاً ولكن تنقصه الأدوار/المطالبات/السياسة المطلوبة → عرض AccessDenied (403)
+ * 8. إذا كان مصادقاً ومفوضاً → عرض المحتوى المحمي
  * ============================================================================
  */
 
 import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from './contexts/AuthContext';
+import { ClaimRequirements, isAuthorized } from './authorization';
+import { Policy } from './policies';
+import AccessDenied from './AccessDenied';
+import AuthErrorScreen from './AuthErrorScreen';
+import { LoginLocationState, toReturnLocation } from './returnLocation';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  roles?: string[];                // User must have at least one of these roles / يجب أن يملك المستخدم أحد هذه الأدوار
+  claims?: ClaimRequirements;      // Required claim values / قيم المطالبات المطلوبة
+  policy?: string | Policy;        // Policy name or inline predicate / اسم السياسة أو دالة تحقق مضمنة
 }
 
 /**
@@ -50,15 +66,15 @@ interface ProtectedRouteProps {
  * مكون ProtectedRoute
  * يغلف المحتوى المحمي ويتحقق من المصادقة قبل العرض
  */
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, roles, claims, policy }) => {
   // Get authentication state from AuthContext
   // الحصول على حالة المصادقة من AuthContext
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, status, error, login } = useAuth();
   const location = useLocation();
 
-  // Show loading spinner while checking authentication status
-  // عرض مؤشر التحميل أثناء التحقق من حالة المصادقة
-  if (isLoading) {
+  // Show loading spinner while checking authentication status or signing in
+  // عرض مؤشر التحميل أثناء التحقق من حالة المصادقة أو تسجيل الدخول
+  if (status === 'initializing' || status === 'authenticating') {
     return (
       <div style={{
         display: 'flex',
@@ -76,7 +92,7 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
           animation: 'spin 1s linear infinite',
           marginBottom: '16px'
         }}></div>
-        <p style={{ color: '#666' }}>Loading...</p>
+        <p style={{ color: '#666' }}>{status === 'authenticating' ? 'Signing in...' : 'Loading...'}</p>
         <style>{`
           @keyframes spin {
             0% { transform: rotate(0deg); }
@@ -87,18 +103,45 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     );
   }
 
-  // If not authenticated, save the URL user was trying to access
-  // Then redirect to login page
-  // After login, AuthCallback will read returnUrl and redirect back here
+  // The token ran out before it could be renewed - say so instead of a silent bounce to /login
+  // انتهى الرمز قبل أن يمكن تجديده - وضح ذلك بدلاً من إعادة توجيه صامتة إلى /login
+  if (status === 'expired') {
+    return (
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        minHeight: '60vh',
+        padding: '20px'
+      }}>
+        <h2 style={{ marginBottom: '16px' }}>Your session has expired</h2>
+        <p style={{ color: '#666', marginBottom: '16px' }}>Please sign in again to continue.</p>
+        <button onClick={() => login({ returnTo: toReturnLocation(location) })}>Sign in again</button>
+      </div>
+    );
+  }
+
+  // The last login failed - show the recovery page
+  // فشل آخر تسجيل دخول - عرض صفحة الاستعادة
+  if (status === 'error' && error) {
+    return <AuthErrorScreen error={error} returnTo={toReturnLocation(location)} />;
+  }
+
+  // If not authenticated, pass the location user was trying to access to the login page
+  // Login carries it through the OIDC state, AuthCallback navigates back here
   // 
-  // إذا لم يكن مصادقاً، احفظ عنوان URL الذي كان المستخدم يحاول الوصول إليه
-  // ثم أعد التوجيه إلى صفحة تسجيل الدخول
-  // بعد تسجيل الدخول، سوف يقرأ AuthCallback returnUrl ويعيد التوجيه هنا
+  // إذا لم يكن مصادقاً، مرر الموقع الذي كان المستخدم يحاول الوصول إليه إلى صفحة تسجيل الدخول
+  // تحمله صفحة تسجيل الدخول عبر حالة OIDC، ويعيد AuthCallback التوجيه هنا
   if (!isAuthenticated) {
-    // Save the attempted URL for redirecting after login
-    // حفظ عنوان URL المحاول لإعادة التوجيه بعد تسجيل الدخول
-    sessionStorage.setItem('returnUrl', location.pathname + location.search);
-    return <Navigate to="/login" replace />;
+    const loginState: LoginLocationState = { from: toReturnLocation(location) };
+    return <Navigate to="/login" replace state={loginState} />;
+  }
+
+  // Signed in but not allowed - show 403 instead of bouncing to /login
+  // مسجل الدخول ولكن غير مسموح له - عرض 403 بدلاً من إعادة التوجيه إلى /login
+  if (!isAuthorized(user, { roles, claims, policy })) {
+    return <AccessDenied />;
   }
 
   // User is authenticated - render the protected content
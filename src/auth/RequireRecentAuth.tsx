@@ -0,0 +1,154 @@
+/**
+ * ============================================================================
+ * REQUIRE RECENT AUTH COMPONENT - RequireRecentAuth.tsx
+ * ============================================================================
+ *
+ * This component guards sensitive pages and buttons with step-up
+ * authentication: the user must have signed in recently enough (and with the
+ * required method) before the content is shown or the action runs.
+ *
+ * مكون طلب مصادقة حديثة - RequireRecentAuth.tsx
+ * يحمي هذا المكون الصفحات والأزرار الحساسة بمصادقة step-up: يجب أن يكون
+ * المستخدم قد سجل الدخول مؤخراً بما يكفي (وبالطريقة المطلوبة) قبل عرض
+ * المحتوى أو تشغيل الإجراء.
+ *
+ * ============================================================================
+ * USAGE:
+ * Page:   <RequireRecentAuth maxAgeSeconds={300}><Settings /></RequireRecentAuth>
+ * Button: <RequireRecentAuth action="reasons.delete" onConfirmed={deleteReason}>
+ *           {(confirm) => <button onClick={confirm}>Delete</button>}
+ *         </RequireRecentAuth>
+ *
+ * FLOW:
+ * 1. Page: recent enough → children / otherwise a "Confirm it's you" prompt
+ * 2. confirm() → requireRecentAuth() → popup (or redirect) with max_age / acr_values
+ * 3. Popup: onConfirmed() runs right away
+ * 4. Redirect: back on the same page, the matching action resumes (takeResumedAction)
+ *
+ * الاستخدام:
+ * صفحة: <RequireRecentAuth maxAgeSeconds={300}><Settings /></RequireRecentAuth>
+ * زر:   <RequireRecentAuth action="reasons.delete" onConfirmed={deleteReason}>
+ *         {(confirm) => <button onClick={confirm}>Delete</button>}
+ *       </RequireRecentAuth>
+ *
+ * التدفق:
+ * 1. صفحة: حديثة بما يكفي → children / وإلا طلب "تأكيد هويتك"
+ * 2. confirm() → requireRecentAuth() → نافذة منبثقة (أو إعادة توجيه) مع max_age / acr_values
+ * 3. نافذة منبثقة: يتم تشغيل onConfirmed() فوراً
+ * 4. إعادة توجيه: بالعودة إلى نفس الصفحة، يُستأنف الإجراء المطابق (takeResumedAction)
+ * ============================================================================
+ */
+
+import React, { ReactNode, useEffect, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { LoginMode } from './authService';
+import { useAuth, useAuthService } from './contexts/AuthContext';
+import { toAuthError } from './errors/authErrors';
+import { isRecentAuth, RecentAuthRequirement } from './recentAuth';
+import { toReturnLocation } from './returnLocation';
+
+interface RequireRecentAuthProps extends RecentAuthRequirement {
+  mode?: LoginMode;                 // 'popup' (default) or 'redirect' / 'popup' (الافتراضي) أو 'redirect'
+  action?: string;                  // ID of the guarded action, resumed after a redirect / معرف الإجراء المحمي
+  onConfirmed?: () => void;         // Runs once the user is recently authenticated / يعمل بعد المصادقة الحديثة
+  children: ReactNode | ((confirm: () => Promise<void>) => ReactNode);
+}
+
+/**
+ * RequireRecentAuth Component
+ * Node children: page guard / function children: button guard
+ *
+ * مكون RequireRecentAuth
+ * children كعقدة: حماية صفحة / children كوظيفة: حماية زر
+ */
+const RequireRecentAuth: React.FC<RequireRecentAuthProps> = ({
+  maxAgeSeconds,
+  acrValues,
+  mode,
+  action,
+  onConfirmed,
+  children,
+}) => {
+  const { user, requireRecentAuth } = useAuth();
+  const authService = useAuthService();
+  const location = useLocation();
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Back from a step-up redirect - run the action the user started before leaving
+  // العودة من إعادة توجيه step-up - شغّل الإجراء الذي بدأه المستخدم قبل المغادرة
+  useEffect(() => {
+    if (action && authService.takeResumedAction(action)) {
+      onConfirmed?.();
+    }
+  }, [action, onConfirmed, authService]);
+
+  /**
+   * Confirm Function
+   * Re-authenticates if needed, then runs onConfirmed (popup) or leaves the app (redirect)
+   *
+   * وظيفة التأكيد
+   * يعيد المصادقة إذا لزم الأمر، ثم يشغل onConfirmed (نافذة منبثقة) أو يغادر التطبيق (إعادة توجيه)
+   */
+  const confirm = async () => {
+    setIsConfirming(true);
+    setError(null);
+    try {
+      const recentUser = await requireRecentAuth({
+        maxAgeSeconds,
+        acrValues,
+        mode,
+        action,
+        returnTo: toReturnLocation(location),
+      });
+      if (recentUser) {
+        onConfirmed?.();
+      }
+    } catch (err) {
+      const authError = toAuthError(err);
+      console.error(`Step-up failed [${authError.diagnosticId}]:`, authError.cause || authError);
+      setError(authError.message);
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  if (typeof children === 'function') {
+    return (
+      <>
+        {children(confirm)}
+        {error && (
+          <span role="alert" style={{ color: '#d32f2f', fontSize: '12px', marginLeft: 8 }}>{error}</span>
+        )}
+      </>
+    );
+  }
+
+  if (isRecentAuth(user, { maxAgeSeconds, acrValues })) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      minHeight: '60vh',
+      padding: '20px'
+    }}>
+      <h2 style={{ marginBottom: '16px' }}>Confirm it's you</h2>
+      <p style={{ color: '#666', marginBottom: '16px', maxWidth: '480px', textAlign: 'center' }}>
+        This page contains sensitive settings. Please sign in again to continue.
+      </p>
+      {error && (
+        <p style={{ color: '#d32f2f', fontSize: '14px' }}>{error}</p>
+      )}
+      <button onClick={confirm} disabled={isConfirming}>
+        {isConfirming ? 'Waiting for sign in...' : 'Sign in again'}
+      </button>
+    </div>
+  );
+};
+
+export default RequireRecentAuth;
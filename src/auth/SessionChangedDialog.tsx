@@ -0,0 +1,127 @@
+/**
+ * ============================================================================
+ * SESSION CHANGED DIALOG COMPONENT - SessionChangedDialog.tsx
+ * ============================================================================
+ *
+ * This component asks the user what to do when Identity Server reports that
+ * the session ended (signed out of SBC in another application) or changed.
+ * It is only used when sessionChangeAction is 'prompt' in config.json.
+ *
+ * مكون نافذة تغيير الجلسة - SessionChangedDialog.tsx
+ * يسأل هذا المكون المستخدم عما يجب فعله عندما يبلغ خادم الهوية أن الجلسة
+ * انتهت (تسجيل الخروج من SBC في تطبيق آخر) أو تغيرت.
+ * يُستخدم فقط عندما يكون sessionChangeAction هو 'prompt' في config.json.
+ *
+ * ============================================================================
+ * FLOW:
+ * 1. Session monitor → authService emits 'sessionChanged' → AuthContext sets sessionChange
+ * 2. "Continue" → revalidateSession() → still signed in: dialog closes / signed out: local logout
+ * 3. "Sign out" → local logout (session ended) or global logout (session changed)
+ *
+ * التدفق:
+ * 1. مراقب الجلسة → authService يطلق 'sessionChanged' → AuthContext يعين sessionChange
+ * 2. "متابعة" → revalidateSession() → لا يزال مسجلاً: تغلق النافذة / تم تسجيل الخروج: خروج محلي
+ * 3. "تسجيل الخروج" → خروج محلي (انتهت الجلسة) أو خروج عام (تغيرت الجلسة)
+ * ============================================================================
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useAuth } from './contexts/AuthContext';
+
+/**
+ * SessionChangedDialog Component
+ * Renders nothing unless a session change is waiting for the user's answer
+ *
+ * مكون SessionChangedDialog
+ * لا يعرض شيئاً إلا إذا كان هناك تغيير جلسة بانتظار رد المستخدم
+ */
+const SessionChangedDialog: React.FC = () => {
+  const { user, sessionChange, revalidateSession, logout } = useAuth();
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOpen = sessionChange !== null && user !== null;
+
+  useEffect(() => {
+    if (!isOpen) {
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  /**
+   * Handle "Continue"
+   * Re-checks the session - AuthContext closes the dialog on success or sign-out
+   *
+   * معالجة "متابعة"
+   * يعيد فحص الجلسة - يغلق AuthContext النافذة عند النجاح أو تسجيل الخروج
+   */
+  const handleContinue = async () => {
+    setIsChecking(true);
+    setError(null);
+    try {
+      await revalidateSession();
+    } catch (err: any) {
+      setError(err.message || 'Could not check your session');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  // The Identity Server session is already gone - no need to redirect there
+  // جلسة خادم الهوية انتهت بالفعل - لا حاجة لإعادة التوجيه إليها
+  const handleSignOut = () => sessionChange === 'signedOut'
+    ? logout({ scope: 'local', reason: 'sessionEnded' })
+    : logout();
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="session-changed-title"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'rgba(0, 0, 0, 0.5)',
+        zIndex: 1000
+      }}
+    >
+      <div style={{
+        background: '#fff',
+        borderRadius: '8px',
+        padding: '24px',
+        maxWidth: '400px',
+        width: '90%',
+        textAlign: 'center'
+      }}>
+        <h2 id="session-changed-title" style={{ marginBottom: '16px' }}>
+          {sessionChange === 'signedOut' ? 'You signed out of SBC' : 'Your SBC session changed'}
+        </h2>
+        <p style={{ color: '#666', marginBottom: '16px' }}>
+          {sessionChange === 'signedOut'
+            ? 'Your SBC account was signed out in another application.'
+            : 'Your SBC session was updated in another application.'}
+        </p>
+        {error && (
+          <p style={{ color: '#d32f2f', fontSize: '14px' }}>{error}</p>
+        )}
+        <div style={{ display: 'flex', gap: 12, justifyContent: 'center' }}>
+          <button onClick={handleContinue} disabled={isChecking}>
+            {isChecking ? 'Checking...' : 'Continue'}
+          </button>
+          <button onClick={handleSignOut} disabled={isChecking}>
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionChangedDialog;
@@ -0,0 +1,138 @@
+/**
+ * ============================================================================
+ * SESSION EXPIRY DIALOG COMPONENT - SessionExpiryDialog.tsx
+ * ============================================================================
+ *
+ * This component shows a countdown modal when the access token is about to
+ * expire, so users can save their work or extend the session.
+ * It is driven by expiryStatus from AuthContext.
+ *
+ * مكون نافذة انتهاء الجلسة - SessionExpiryDialog.tsx
+ * يعرض هذا المكون نافذة بعد تنازلي عندما يكون رمز الوصول على وشك الانتهاء،
+ * حتى يتمكن المستخدمون من حفظ عملهم أو تمديد الجلسة.
+ * يتم التحكم فيه بواسطة expiryStatus من AuthContext.
+ *
+ * ============================================================================
+ * FLOW:
+ * 1. Token is about to expire (tokenExpiring) → AuthContext sets expiryStatus = 'expiring'
+ *    The automatic renewal runs at the same time - when it succeeds the dialog closes
+ * 2. Dialog opens with a countdown to user.expires_at
+ * 3. "Stay signed in" → renewSession() → silent renew → expiryStatus = 'active'
+ * 4. "Sign out now" → logout()
+ * 5. Countdown reaches zero → token expired → authService logs the user out
+ *
+ * التدفق:
+ * 1. الرمز المميز على وشك الانتهاء (tokenExpiring) → AuthContext يعين expiryStatus = 'expiring'
+ *    يعمل التجديد التلقائي في نفس الوقت - عند نجاحه تغلق النافذة
+ * 2. تفتح النافذة مع عد تنازلي حتى user.expires_at
+ * 3. "البقاء مسجلاً الدخول" → renewSession() → تجديد صامت → expiryStatus = 'active'
+ * 4. "تسجيل الخروج الآن" → logout()
+ * 5. يصل العد التنازلي إلى الصفر → انتهى الرمز المميز → authService يسجل خروج المستخدم
+ * ============================================================================
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useAuth } from './contexts/AuthContext';
+import { formatCountdown, getSecondsUntil } from './countdown';
+
+/**
+ * SessionExpiryDialog Component
+ * Renders nothing unless the session is expiring
+ *
+ * مكون SessionExpiryDialog
+ * لا يعرض شيئاً إلا إذا كانت الجلسة على وشك الانتهاء
+ */
+const SessionExpiryDialog: React.FC = () => {
+  const { user, expiryStatus, renewSession, logout } = useAuth();
+  const [secondsLeft, setSecondsLeft] = useState(() => getSecondsUntil(user?.expires_at));
+  const [isRenewing, setIsRenewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOpen = expiryStatus === 'expiring' && user !== null;
+
+  // Tick the countdown every second while the dialog is open
+  // تحديث العد التنازلي كل ثانية أثناء فتح النافذة
+  useEffect(() => {
+    if (!isOpen) {
+      setError(null);
+      return;
+    }
+
+    setSecondsLeft(getSecondsUntil(user?.expires_at));
+    const interval = setInterval(() => {
+      setSecondsLeft(getSecondsUntil(user?.expires_at));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [isOpen, user]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  /**
+   * Handle "Stay signed in"
+   * Triggers a silent renew - on success expiryStatus returns to 'active' and the dialog closes
+   *
+   * معالجة "البقاء مسجلاً الدخول"
+   * يطلق تجديداً صامتاً - عند النجاح تعود expiryStatus إلى 'active' وتغلق النافذة
+   */
+  const handleStaySignedIn = async () => {
+    setIsRenewing(true);
+    setError(null);
+    try {
+      await renewSession();
+    } catch (err: any) {
+      setError(err.message || 'Could not renew your session');
+    } finally {
+      setIsRenewing(false);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="session-expiry-title"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'rgba(0, 0, 0, 0.5)',
+        zIndex: 1000
+      }}
+    >
+      <div style={{
+        background: '#fff',
+        borderRadius: '8px',
+        padding: '24px',
+        maxWidth: '400px',
+        width: '90%',
+        textAlign: 'center'
+      }}>
+        <h2 id="session-expiry-title" style={{ marginBottom: '16px' }}>Your session is about to expire</h2>
+        <p style={{ color: '#666', marginBottom: '8px' }}>
+          You will be signed out in
+        </p>
+        <p style={{ fontSize: '32px', fontWeight: 'bold', margin: '0 0 16px' }}>
+          {formatCountdown(secondsLeft)}
+        </p>
+        {error && (
+          <p style={{ color: '#d32f2f', fontSize: '14px' }}>{error}</p>
+        )}
+        <div style={{ display: 'flex', gap: 12, justifyContent: 'center' }}>
+          <button onClick={handleStaySignedIn} disabled={isRenewing}>
+            {isRenewing ? 'Renewing...' : 'Stay signed in'}
+          </button>
+          <button onClick={() => logout()} disabled={isRenewing}>
+            Sign out now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionExpiryDialog;
@@ -0,0 +1,71 @@
+/**
+ * ============================================================================
+ * SIGNED OUT COMPONENT - SignedOut.tsx
+ * ============================================================================
+ *
+ * This component displays the "signed out" landing page.
+ * It is shown after a global logout (via SignoutCallback) and after a local
+ * logout, instead of bouncing through ProtectedRoute to the login page.
+ *
+ * مكون تم تسجيل الخروج - SignedOut.tsx
+ * يعرض هذا المكون صفحة الهبوط "تم تسجيل الخروج".
+ * يتم عرضه بعد تسجيل الخروج العام (عبر SignoutCallback) وبعد تسجيل الخروج
+ * المحلي، بدلاً من المرور عبر ProtectedRoute إلى صفحة تسجيل الدخول.
+ *
+ * ============================================================================
+ */
+
+import React from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { LogoutReason } from './events/authEvents';
+
+/**
+ * Signed Out Location State
+ * Router state passed to /signed-out
+ *
+ * حالة موقع تم تسجيل الخروج
+ * حالة الموجه الممررة إلى /signed-out
+ */
+export interface SignedOutLocationState {
+  reason?: LogoutReason;
+}
+
+// Message shown for each logout reason / الرسالة المعروضة لكل سبب تسجيل خروج
+const REASON_MESSAGES: Record<LogoutReason, string> = {
+  user: 'You have been signed out.',
+  tokenExpired: 'Your session has expired.',
+  idle: 'You were signed out because of inactivity.',
+  otherTab: 'You signed out in another tab.',
+  unauthorized: 'Your session is no longer valid.',
+  sessionEnded: 'You signed out of SBC in another application.',
+};
+
+/**
+ * SignedOut Component
+ * Shows why the session ended and a link to sign in again
+ *
+ * مكون SignedOut
+ * يعرض سبب انتهاء الجلسة ورابطاً لتسجيل الدخول مرة أخرى
+ */
+const SignedOut: React.FC = () => {
+  const location = useLocation();
+  const reason = (location.state as SignedOutLocationState | null)?.reason;
+  const message = (reason && REASON_MESSAGES[reason]) || REASON_MESSAGES.user;
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      minHeight: '100vh',
+      padding: '20px'
+    }}>
+      <h2 style={{ marginBottom: '16px' }}>Signed out</h2>
+      <p style={{ color: '#666', marginBottom: '16px' }}>{message}</p>
+      <Link to="/login">Sign in again</Link>
+    </div>
+  );
+};
+
+export default SignedOut;
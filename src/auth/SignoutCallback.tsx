@@ -0,0 +1,78 @@
+/**
+ * ============================================================================
+ * SIGNOUT CALLBACK COMPONENT - SignoutCallback.tsx
+ * ============================================================================
+ *
+ * This component handles the redirect back from Identity Server after a
+ * global logout (post_logout_redirect_uri = /signout-callback).
+ * It finishes the logout and shows the "signed out" page.
+ *
+ * مكون استدعاء تسجيل الخروج - SignoutCallback.tsx
+ * يتعامل هذا المكون مع إعادة التوجيه من خادم الهوية بعد تسجيل الخروج العام
+ * (post_logout_redirect_uri = /signout-callback).
+ * يكمل تسجيل الخروج ويعرض صفحة "تم تسجيل الخروج".
+ *
+ * ============================================================================
+ * FLOW:
+ * 1. logout() → signoutRedirect({ state: { reason } }) → Identity Server ends the session
+ * 2. Identity Server redirects to /signout-callback?state=xxx
+ * 3. authService.completeLogout() → returns { reason }
+ * 4. Redirects to /signed-out with the reason
+ *
+ * التدفق:
+ * 1. logout() → signoutRedirect({ state: { reason } }) → خادم الهوية ينهي الجلسة
+ * 2. خادم الهوية يعيد التوجيه إلى /signout-callback?state=xxx
+ * 3. authService.completeLogout() → يعيد { reason }
+ * 4. يعيد التوجيه إلى /signed-out مع السبب
+ * ============================================================================
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuthService } from './contexts/AuthContext';
+import { SignedOutLocationState } from './SignedOut';
+
+/**
+ * SignoutCallback Component
+ * The user is already signed out locally - a failed callback (stale or
+ * reloaded URL) still lands on the "signed out" page
+ *
+ * مكون SignoutCallback
+ * المستخدم مسجل خروجه محلياً بالفعل - الاستدعاء الفاشل (عنوان URL قديم
+ * أو معاد تحميله) يصل أيضاً إلى صفحة "تم تسجيل الخروج"
+ */
+const SignoutCallback: React.FC = () => {
+  const navigate = useNavigate();
+  const authService = useAuthService();
+
+  // Prevent double processing in React Strict Mode / منع المعالجة المزدوجة في وضع React Strict Mode
+  const hasProcessed = useRef(false);
+
+  useEffect(() => {
+    if (hasProcessed.current) return;
+    hasProcessed.current = true;
+
+    authService.completeLogout()
+      .catch((error): SignedOutLocationState => {
+        console.error('Signout callback error:', error);
+        return {};
+      })
+      .then(({ reason }) => {
+        const state: SignedOutLocationState = { reason };
+        navigate('/signed-out', { replace: true, state });
+      });
+  }, [navigate, authService]);
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      minHeight: '100vh'
+    }}>
+      <p style={{ color: '#666' }}>Signing out...</p>
+    </div>
+  );
+};
+
+export default SignoutCallback;
@@ -34,7 +34,7 @@
  */
 
 import React, { useEffect } from 'react';
-import authService from './authService';
+import { useAuthService } from './contexts/AuthContext';
 
 /**
  * SilentRenew Component
@@ -46,6 +46,8 @@ import authService from './authService';
  * يعيد null لأنه لا يجب أن يعرض أي شيء مرئي
  */
 const SilentRenew: React.FC = () => {
+  const authService = useAuthService();
+
   useEffect(() => {
     // Process the silent renew callback
     // This is called when Identity Server redirects back with new tokens
@@ -55,7 +57,7 @@ const SilentRenew: React.FC = () => {
       .catch((error) => {
         console.error('Silent renew error:', error);
       });
-  }, []);
+  }, [authService]);
 
   // Return null - this page is invisible (rendered in hidden iframe)
   // إرجاع null - هذه الصفحة غير مرئية (يتم عرضها في iframe مخفي)
@@ -0,0 +1,78 @@
+import { IndexedDbDPoPStore, OidcClient, UserManager } from 'oidc-client-ts';
+import { requestApiToken } from './apiTokens';
+import { AuthError } from './errors/authErrors';
+
+const TOKEN_ENDPOINT = 'https://identity.example.test/connect/token';
+
+const createUserManager = (dpop: boolean): UserManager =>
+  new UserManager({
+    authority: 'https://identity.example.test',
+    client_id: 'calc-web',
+    redirect_uri: 'http://localhost/auth/callback',
+    metadata: { issuer: 'https://identity.example.test', token_endpoint: TOKEN_ENDPOINT },
+    dpop: dpop ? { store: new IndexedDbDPoPStore() } : undefined,
+  });
+
+const jsonResponse = (status: number, body: object, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+describe('requestApiToken', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(window, 'fetch');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('requests a token for the API scopes with the refresh token', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { access_token: 'api-token', expires_in: 300, refresh_token: 'refresh-token' }));
+
+    const { token, refreshToken } = await requestApiToken(createUserManager(false), 'refresh-token', ['ReportsApi', 'CalcApi']);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(TOKEN_ENDPOINT);
+    expect(Object.fromEntries(init.body)).toEqual({
+      grant_type: 'refresh_token',
+      client_id: 'calc-web',
+      refresh_token: 'refresh-token',
+      scope: 'CalcApi ReportsApi',
+    });
+    expect(init.headers.DPoP).toBeUndefined();
+    expect(token.accessToken).toBe('api-token');
+    expect(refreshToken).toBeUndefined();
+  });
+
+  it('retries once with the DPoP nonce Identity Server asks for', async () => {
+    const getDpopProof = jest.spyOn(OidcClient.prototype, 'getDpopProof').mockResolvedValue('proof');
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(400, { error: 'use_dpop_nonce' }, { 'DPoP-Nonce': 'nonce-1' }))
+      .mockResolvedValueOnce(jsonResponse(200, { access_token: 'api-token', expires_in: 300 }));
+
+    const { token } = await requestApiToken(createUserManager(true), 'refresh-token', ['ReportsApi']);
+
+    expect(token.accessToken).toBe('api-token');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(getDpopProof.mock.calls.map(([, nonce]) => nonce)).toEqual([undefined, 'nonce-1']);
+    expect(fetchMock.mock.calls[1][1].headers.DPoP).toBe('proof');
+  });
+
+  it('does not retry a second use_dpop_nonce error', async () => {
+    jest.spyOn(OidcClient.prototype, 'getDpopProof').mockResolvedValue('proof');
+    fetchMock.mockImplementation(async () => jsonResponse(400, { error: 'use_dpop_nonce' }, { 'DPoP-Nonce': 'nonce-1' }));
+
+    await expect(requestApiToken(createUserManager(true), 'refresh-token', ['ReportsApi'])).rejects.toThrow('use_dpop_nonce');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails with an AuthError when the response is not JSON', async () => {
+    fetchMock.mockResolvedValue(new Response('<html>Bad Gateway</html>', { status: 502 }));
+
+    const request = requestApiToken(createUserManager(false), 'refresh-token', ['ReportsApi']);
+
+    await expect(request).rejects.toBeInstanceOf(AuthError);
+    await expect(request).rejects.toThrow('502');
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * ============================================================================
+ * PER-API ACCESS TOKENS - apiTokens.ts
+ * ============================================================================
+ *
+ * This file gets access tokens limited to the scopes of one API, so a token
+ * sent to the Calc API cannot be used against the attachment API (and the
+ * other way round). Tokens are downscoped from the refresh token (OAuth 2.0
+ * refresh_token grant with a narrower "scope") and cached until they expire.
+ *
+ * رموز الوصول لكل API - apiTokens.ts
+ * يحصل هذا الملف على رموز وصول مقتصرة على نطاقات API واحد، حتى لا يمكن
+ * استخدام رمز مرسل إلى Calc API ضد API المرفقات (والعكس).
+ * يتم تضييق نطاق الرموز من رمز التحديث (منح refresh_token في OAuth 2.0 مع
+ * "scope" أضيق) وتخزينها مؤقتاً حتى تنتهي صلاحيتها.
+ *
+ * ============================================================================
+ * FLOW:
+ * 1. apiClient → authService.getAccessToken({ scopes: api.scopes })
+ * 2. Scopes not granted yet → ConsentRequiredError; the app shows ConsentPrompt and
+ *    requestScopes() asks for consent when the user clicks (first use only)
+ * 3. Cached token still valid → returned
+ * 4. Otherwise requestApiToken() → refresh_token grant with scope → cached
+ *
+ * التدفق:
+ * 1. apiClient → authService.getAccessToken({ scopes: api.scopes })
+ * 2. نطاقات لم تُمنح بعد → ConsentRequiredError؛ يعرض التطبيق ConsentPrompt و
+ *    requestScopes() يطلب الموافقة عندما ينقر المستخدم (أول استخدام فقط)
+ * 3. رمز مخزن مؤقتاً لا يزال صالحاً → يتم إرجاعه
+ * 4. وإلا requestApiToken() → منح refresh_token مع scope → يتم تخزينه مؤقتاً
+ * ============================================================================
+ */
+
+import { OidcClient, User, UserManager } from 'oidc-client-ts';
+import { AuthError } from './errors/authErrors';
+
+// Tokens closer than this to expiry are requested again / الرموز الأقرب من هذا للانتهاء يتم طلبها مرة أخرى
+const MIN_TOKEN_VALIDITY_SECONDS = 60;
+
+/**
+ * Access Token Options
+ * scopes: API scopes the token is for (default: the token issued at login)
+ *
+ * خيارات رمز الوصول
+ * scopes: نطاقات API التي يكون الرمز لها (الافتراضي: الرمز الصادر عند تسجيل الدخول)
+ */
+export interface AccessTokenOptions {
+  scopes?: string[];
+}
+
+/**
+ * Api Token
+ * Downscoped access token and its expiry (epoch seconds)
+ *
+ * رمز API
+ * رمز وصول مضيق النطاق ووقت انتهائه (ثواني epoch)
+ */
+export interface ApiToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+/**
+ * Api Token Response
+ * refreshToken is set when Identity Server rotated the refresh token
+ *
+ * استجابة رمز API
+ * يتم تعيين refreshToken عندما يدور خادم الهوية رمز التحديث
+ */
+export interface ApiTokenResponse {
+  token: ApiToken;
+  refreshToken?: string;
+}
+
+/**
+ * To Scope Key
+ * Order-independent key of a scope list, e.g. "CalcApi CalcAttachmentApi"
+ *
+ * التحويل إلى مفتاح نطاق
+ * مفتاح مستقل عن الترتيب لقائمة نطاقات، مثل "CalcApi CalcAttachmentApi"
+ */
+export const toScopeKey = (scopes: string[]): string => Array.from(new Set(scopes)).sort().join(' ');
+
+/**
+ * Get Missing Scopes
+ * Scopes the user has not consented to yet
+ *
+ * الحصول على النطاقات المفقودة
+ * النطاقات التي لم يوافق عليها المستخدم بعد
+ */
+export const getMissingScopes = (user: User, scopes: string[]): string[] =>
+  scopes.filter((scope) => !user.scopes.includes(scope));
+
+/**
+ * ApiTokenCache Class
+ * Downscoped tokens by scope key - cleared whenever the user changes
+ *
+ * فئة ApiTokenCache
+ * الرموز المضيقة حسب مفتاح النطاق - يتم مسحها كلما تغير المستخدم
+ */
+export class ApiTokenCache {
+  private readonly tokens = new Map<string, ApiToken>();
+
+  public get(key: string): ApiToken | null {
+    const token = this.tokens.get(key);
+    if (!token || token.expiresAt - Date.now() / 1000 < MIN_TOKEN_VALIDITY_SECONDS) {
+      return null;
+    }
+    return token;
+  }
+
+  public set(key: string, token: ApiToken): void {
+    this.tokens.set(key, token);
+  }
+
+  public clear(): void {
+    this.tokens.clear();
+  }
+}
+
+/**
+ * Get Token Request Headers
+ * With DPoP on, adds a proof for the token endpoint signed with the persisted key,
+ * so the new token is bound to the same key as the refresh token
+ *
+ * الحصول على ترويسات طلب الرمز
+ * مع تفعيل DPoP، يضيف إثباتاً لنقطة نهاية الرمز موقعاً بالمفتاح المحفوظ،
+ * حتى يرتبط الرمز الجديد بنفس مفتاح رمز التحديث
+ */
+const getTokenRequestHeaders = async (userManager: UserManager, dpopNonce?: string): Promise<Record<string, string>> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  const { dpop } = userManager.settings;
+  if (dpop) {
+    const client = new OidcClient(userManager.settings, userManager.metadataService);
+    headers.DPoP = await client.getDpopProof(dpop.store, dpopNonce);
+  }
+  return headers;
+};
+
+/**
+ * Token Endpoint Response
+ * Fields of the token endpoint's JSON body (success and OAuth error)
+ *
+ * استجابة نقطة نهاية الرمز
+ * حقول جسم JSON لنقطة نهاية الرمز (النجاح وخطأ OAuth)
+ */
+interface TokenEndpointResponse {
+  access_token?: string;
+  expires_in?: number;
+  refresh_token?: string;
+  error?: string;
+  error_description?: string;
+}
+
+/**
+ * Read Token Response
+ * A body that is not JSON (e.g. a proxy's HTML error page) fails as an AuthError
+ *
+ * قراءة استجابة الرمز
+ * الجسم الذي ليس JSON (مثل صفحة خطأ HTML من وكيل) يفشل كـ AuthError
+ */
+const readTokenResponse = async (response: Response, scopes: string[]): Promise<TokenEndpointResponse> => {
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new AuthError('unknown', `Token request for "${toScopeKey(scopes)}" failed: ${response.status} (response is not JSON)`, error);
+  }
+};
+
+/**
+ * Request Api Token
+ * Exchanges the refresh token for an access token limited to the given scopes
+ * A use_dpop_nonce error is retried once with the nonce Identity Server sent
+ *
+ * طلب رمز API
+ * يستبدل رمز التحديث برمز وصول مقتصر على النطاقات المعطاة
+ * يُعاد خطأ use_dpop_nonce مرة واحدة مع الـ nonce الذي أرسله خادم الهوية
+ */
+export const requestApiToken = async (
+  userManager: UserManager,
+  refreshToken: string,
+  scopes: string[]
+): Promise<ApiTokenResponse> => {
+  const tokenEndpoint = await userManager.metadataService.getTokenEndpoint(false);
+  const postTokenRequest = async (dpopNonce?: string) => fetch(tokenEndpoint, {
+    method: 'POST',
+    headers: await getTokenRequestHeaders(userManager, dpopNonce),
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      client_id: userManager.settings.client_id,
+      refresh_token: refreshToken,
+      scope: toScopeKey(scopes),
+    }),
+  });
+
+  let response = await postTokenRequest();
+  let body = await readTokenResponse(response, scopes);
+
+  const dpopNonce = response.headers.get('DPoP-Nonce');
+  if (!response.ok && body.error === 'use_dpop_nonce' && dpopNonce) {
+    response = await postTokenRequest(dpopNonce);
+    body = await readTokenResponse(response, scopes);
+  }
+
+  if (!response.ok) {
+    throw new AuthError('unknown', `Token request for "${toScopeKey(scopes)}" failed: ${body.error_description || body.error || response.status}`);
+  }
+
+  if (!body.access_token) {
+    throw new AuthError('unknown', `Token request for "${toScopeKey(scopes)}" returned no access token`);
+  }
+
+  return {
+    token: {
+      accessToken: body.access_token,
+      expiresAt: Math.floor(Date.now() / 1000) + Number(body.expires_in || 0),
+    },
+    refreshToken: body.refresh_token !== refreshToken ? body.refresh_token : undefined,
+  };
+};
@@ -9,8 +9,14 @@
  * - Token management
  * - User state management
  * - Silent token renewal
+ * - Cross-tab session sync (login/logout/renewal are broadcast to other tabs)
+ * - Typed auth events (authService.events) feeding useAuthEvents() and the audit trail
+ * - Multiple identity providers (SBC + partners), one UserManager per provider
+ * - Step-up re-authentication for sensitive operations (requireRecentAuth)
+ * - Per-API access tokens with incremental consent (getAccessToken({ scopes }))
  * 
- * This service is a singleton - only one instance exists for the entire app.
+ * Instances are built with createAuthService(config) - the app creates one and
+ * hands it to AuthProvider; components reach it with useAuthService().
  * 
  * خدمة المصادقة - authService.ts
  * هذا غلاف حول oidc-client-ts UserManager.
@@ -19,30 +25,165 @@
  * - إدارة الرموز المميزة
  * - إدارة حالة المستخدم
  * - التجديد الصامت للرموز المميزة
+ * - مزامنة الجلسة بين التبويبات (يتم بث تسجيل الدخول/الخروج/التجديد إلى التبويبات الأخرى)
+ * - أحداث مصادقة مكتوبة (authService.events) تغذي useAuthEvents() وسجل التدقيق
+ * - موفرو هوية متعددون (SBC + الشركاء)، UserManager واحد لكل موفر
+ * - إعادة مصادقة step-up للعمليات الحساسة (requireRecentAuth)
+ * - رموز وصول لكل API مع موافقة تدريجية (getAccessToken({ scopes }))
  * 
- * هذه الخدمة هي singleton - يوجد مثيل واحد فقط للتطبيق بالكامل.
+ * يتم إنشاء المثيلات عبر createAuthService(config) - ينشئ التطبيق مثيلاً واحداً
+ * ويسلمه إلى AuthProvider؛ تصل إليه المكونات عبر useAuthService().
  * 
  * ============================================================================
  * FLOW:
- * 1. AuthService initializes → creates UserManager with authConfig
+ * 1. AuthService initializes → creates one UserManager per identity provider (authConfig)
+ *    The active provider (last one used) serves getUser(), renewal and logout
  * 2. Sets up event handlers for OIDC events
  * 3. Login: signinRedirect() → redirects browser to Identity Server
+ *    (or signinPopup() → opens Identity Server in a popup, app state is kept)
  * 4. Complete Login: signinRedirectCallback() → processes callback, gets tokens
  * 5. Logout: signoutRedirect() → redirects to Identity Server logout
- * 6. Silent Renew: automatically handled by UserManager when token expires
+ * 6. Renew: on accessTokenExpiring → renewToken() tries each renew strategy
+ *    (refresh token, hidden iframe) in order until one succeeds
+ * 7. Session Sync: other tabs reload the user (login/renew) or remove it (logout)
+ * 8. Session Monitor: Identity Server reports sign-out / session change →
+ *    logout, silent revalidation or user prompt (sessionChangeAction)
  * 
  * التدفق:
- * 1. AuthService يتم تهيئته → ينشئ UserManager مع authConfig
+ * 1. AuthService يتم تهيئته → ينشئ UserManager لكل موفر هوية (authConfig)
+ *    الموفر النشط (آخر موفر مستخدم) يخدم getUser() والتجديد وتسجيل الخروج
  * 2. يعد معالجات الأحداث لأحداث OIDC
  * 3. تسجيل الدخول: signinRedirect() → يعيد توجيه المتصفح إلى خادم الهوية
+ *    (أو signinPopup() → يفتح خادم الهوية في نافذة منبثقة، تبقى حالة التطبيق)
  * 4. إكمال تسجيل الدخول: signinRedirectCallback() → يعالج الاستدعاء، يحصل على الرموز المميزة
  * 5. تسجيل الخروج: signoutRedirect() → يعيد التوجيه إلى تسجيل خروج خادم الهوية
- * 6. التجديد الصامت: يتم التعامل معه تلقائياً بواسطة UserManager عندما ينتهي الرمز المميز
+ * 6. التجديد: عند accessTokenExpiring → renewToken() يجرب كل استراتيجية تجديد
+ *    (رمز التحديث، iframe مخفي) بالترتيب حتى تنجح إحداها
+ * 7. مزامنة الجلسة: التبويبات الأخرى تعيد تحميل المستخدم (دخول/تجديد) أو تزيله (خروج)
+ * 8. مراقبة الجلسة: خادم الهوية يبلغ عن تسجيل الخروج / تغيير الجلسة →
+ *    تسجيل الخروج، إعادة التحقق الصامتة أو سؤال المستخدم (sessionChangeAction)
  * ============================================================================
  */
 
-import { UserManager, User } from 'oidc-client-ts';
-import { authConfig } from './config/authConfig';
+import { IndexedDbDPoPStore, UserManager, User } from 'oidc-client-ts';
+import { AuthServiceConfig, createAuthConfig } from './config/authConfig';
+import { IdentityProvider, isSharedTokenStorage, PRIMARY_PROVIDER_ID, RenewStrategy, SessionChangeAction } from './config/appConfig';
+import { createUserStore } from './storage/tokenStorage';
+import { SessionSync, SessionSyncEventType } from './sessionSync';
+import { AuthEventEmitter, AuthEventMap, AuthEventType, LogoutReason, SessionChangeType } from './events/authEvents';
+import { attachAuditSink, HttpAuditSink } from './events/auditTrail';
+import { ReturnLocation } from './returnLocation';
+import { ClockSkewError, ConsentRequiredError, getClockSkewSeconds, MAX_CLOCK_SKEW_SECONDS, StepUpError, toAuthError } from './errors/authErrors';
+import { DEFAULT_RECENT_AUTH_MAX_AGE_SECONDS, isRecentAuth, RecentAuthRequirement } from './recentAuth';
+import { AccessTokenOptions, ApiTokenCache, getMissingScopes, requestApiToken, toScopeKey } from './apiTokens';
+
+/**
+ * Login Options
+ * mode: 'redirect' (default) leaves the app, 'popup' keeps in-memory state
+ * returnTo: page to open after a redirect login - carried in the OIDC state
+ * provider: identity provider id (default: the last one used)
+ * prompt: OIDC prompt, e.g. 'select_account' to sign in with a different account
+ * 
+ * خيارات تسجيل الدخول
+ * mode: 'redirect' (الافتراضي) يغادر التطبيق، 'popup' يحتفظ بالحالة في الذاكرة
+ * returnTo: الصفحة التي تُفتح بعد تسجيل الدخول بإعادة التوجيه - تُحمل في حالة OIDC
+ * provider: معرف موفر الهوية (الافتراضي: آخر موفر مستخدم)
+ * prompt: prompt الخاص بـ OIDC، مثل 'select_account' لتسجيل الدخول بحساب مختلف
+ */
+export type LoginMode = 'redirect' | 'popup';
+
+export interface LoginOptions {
+  mode?: LoginMode;
+  returnTo?: ReturnLocation;
+  provider?: string;
+  prompt?: string;
+}
+
+/**
+ * Recent Auth Options
+ * maxAgeSeconds / acrValues: the requirement (see recentAuth.ts)
+ * mode: 'popup' (default) continues in place, 'redirect' leaves the app
+ * returnTo / action: where to come back and which pending action to resume after a redirect
+ * 
+ * خيارات المصادقة الحديثة
+ * maxAgeSeconds / acrValues: المتطلب (انظر recentAuth.ts)
+ * mode: 'popup' (الافتراضي) يستمر في مكانه، 'redirect' يغادر التطبيق
+ * returnTo / action: مكان العودة والإجراء المعلق الذي يُستأنف بعد إعادة التوجيه
+ */
+export interface RecentAuthOptions extends RecentAuthRequirement {
+  mode?: LoginMode;
+  returnTo?: ReturnLocation;
+  action?: string;
+}
+
+/**
+ * Signin State
+ * Custom data stored with the OIDC state and returned on the User after the callback
+ * stepUp: set by requireRecentAuth() - checked again after the callback
+ * provider: set by login() - becomes the active provider once the sign-in succeeds
+ * 
+ * حالة تسجيل الدخول
+ * بيانات مخصصة يتم تخزينها مع حالة OIDC وإعادتها على User بعد الاستدعاء
+ * stepUp: يعينه requireRecentAuth() - يتم فحصه مرة أخرى بعد الاستدعاء
+ * provider: يعينه login() - يصبح الموفر النشط بمجرد نجاح تسجيل الدخول
+ */
+export interface SigninState {
+  returnTo?: ReturnLocation;
+  provider?: string;
+  stepUp?: RecentAuthRequirement & { action?: string };
+}
+
+/**
+ * Logout Options
+ * reason: why the session ended - recorded in the logout event / audit trail
+ * scope: 'global' (default) also ends the Identity Server session,
+ *        'local' only clears this app's tokens (no redirect)
+ * 
+ * خيارات تسجيل الخروج
+ * reason: سبب انتهاء الجلسة - يتم تسجيله في حدث تسجيل الخروج / سجل التدقيق
+ * scope: 'global' (الافتراضي) ينهي أيضاً جلسة خادم الهوية،
+ *        'local' يمسح رموز هذا التطبيق فقط (بدون إعادة توجيه)
+ */
+export type LogoutScope = 'global' | 'local';
+
+export interface LogoutOptions {
+  reason?: LogoutReason;
+  scope?: LogoutScope;
+}
+
+/**
+ * Signout State
+ * Custom data sent with the end session request and returned to /signout-callback
+ * 
+ * حالة تسجيل الخروج
+ * بيانات مخصصة يتم إرسالها مع طلب إنهاء الجلسة وإعادتها إلى /signout-callback
+ */
+export interface SignoutState {
+  reason?: LogoutReason;
+}
+
+// Active identity provider (= last one used), shared by all tabs - suffixed per
+// authority and client like the oidc-client-ts user keys, so services of other
+// configs do not share it
+// موفر الهوية النشط (= آخر موفر مستخدم)، مشترك بين جميع التبويبات - مع لاحقة لكل
+// خادم هوية وعميل مثل مفاتيح المستخدم في oidc-client-ts، حتى لا تشاركه خدمات بتكوينات أخرى
+const ACTIVE_PROVIDER_KEY_PREFIX = 'calc-auth-provider';
+
+// Web Lock held while a tab uses the refresh token, suffixed the same way
+// قفل الويب المحجوز أثناء استخدام تبويب لرمز التحديث، مع نفس اللاحقة
+const REFRESH_TOKEN_LOCK_PREFIX = 'calc-auth-refresh-token';
+
+/**
+ * Is Popup Blocked Error
+ * oidc-client-ts cannot navigate a popup that window.open() refused to create
+ * 
+ * هل هو خطأ حظر النافذة المنبثقة
+ * لا يستطيع oidc-client-ts التنقل في نافذة منبثقة رفض window.open() إنشاءها
+ */
+const isPopupBlockedError = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes('disposed window') || message.includes('Popup blocked');
+};
 
 /**
  * AuthService Class
@@ -51,100 +192,543 @@ import { authConfig } from './config/authConfig';
  * فئة AuthService
  * تغلف oidc-client-ts UserManager لتوفير وظائف المصادقة
  */
-class AuthService {
-  private userManager: UserManager;
+export class AuthService {
+  // One UserManager per identity provider, keyed by provider id (SBC first)
+  // UserManager واحد لكل موفر هوية، بمفتاح معرف الموفر (SBC أولاً)
+  private readonly providers: IdentityProvider[];
+  private readonly userManagers = new Map<string, UserManager>();
+  private readonly activeProviderKey: string;
+  private readonly refreshTokenLock: string;
+  private readonly sessionSync: SessionSync;
+
+  // False for memory/sessionStorage - other tabs cannot read our user, so only sign-outs are synced
+  // خطأ لـ memory/sessionStorage - لا تستطيع التبويبات الأخرى قراءة مستخدمنا، لذا تتم مزامنة تسجيل الخروج فقط
+  private readonly sharesTokenStore: boolean;
+
+  // Audit sink (when configured) and everything to unsubscribe on dispose()
+  // وجهة التدقيق (عند تكوينها) وكل ما يجب إلغاء الاشتراك منه عند dispose()
+  private readonly auditSink: HttpAuditSink | null = null;
+  private readonly subscriptions: (() => void)[] = [];
+
+  // Typed auth events - subscribe with events.subscribe() / events.on() or useAuthEvents()
+  // أحداث المصادقة المكتوبة - اشترك عبر events.subscribe() / events.on() أو useAuthEvents()
+  public readonly events = new AuthEventEmitter();
+
+  // 'sub' of the current user, attached to every emitted event
+  // 'sub' للمستخدم الحالي، يُرفق بكل حدث يتم إطلاقه
+  private currentSubject: string | undefined;
+
+  // True while completeLogin() runs - the resulting userLoaded is a login, not a renewal
+  // صحيح أثناء تشغيل completeLogin() - حدث userLoaded الناتج هو تسجيل دخول وليس تجديداً
+  private isCompletingLogin = false;
+
+  // True while applying an event from another tab - prevents echoing it back
+  // صحيح أثناء تطبيق حدث من تبويب آخر - يمنع إعادة بثه
+  private isApplyingRemoteEvent = false;
+
+  // Renew strategies in order of preference (from config)
+  // استراتيجيات التجديد بترتيب الأفضلية (من التكوين)
+  private readonly renewStrategies: RenewStrategy[];
+
+  // Reaction to Identity Server session changes (from config)
+  // الاستجابة لتغييرات جلسة خادم الهوية (من التكوين)
+  private readonly sessionChangeAction: SessionChangeAction;
+
+  // Renewal in progress - concurrent callers share it instead of starting another
+  // تجديد قيد التنفيذ - المستدعون المتزامنون يشاركونه بدلاً من بدء تجديد آخر
+  private renewInFlight: Promise<User | null> | null = null;
+
+  // Pending action of a step-up redirect, waiting to be resumed by its component
+  // الإجراء المعلق لإعادة توجيه step-up، بانتظار أن يستأنفه المكون الخاص به
+  private resumedAction: string | null = null;
+
+  // Per-API (downscoped) access tokens, and the requests in progress by scope key
+  // رموز الوصول لكل API (مضيقة النطاق)، والطلبات قيد التنفيذ حسب مفتاح النطاق
+  private readonly apiTokens = new ApiTokenCache();
+  private readonly apiTokenRequests = new Map<string, Promise<string | null>>();
+
+  // Consent requests run one after another - a later one skips the scopes already granted
+  // طلبات الموافقة تعمل واحداً تلو الآخر - الطلب اللاحق يتجاوز النطاقات الممنوحة بالفعل
+  private scopeRequestQueue: Promise<unknown> = Promise.resolve();
+
+  // Everything that uses the refresh token runs one after another, in all tabs - Identity
+  // Server may rotate it, so two requests with the same refresh token would fail
+  // كل ما يستخدم رمز التحديث يعمل واحداً تلو الآخر، في جميع التبويبات - قد يدور خادم الهوية
+  // الرمز، لذا سيفشل طلبان بنفس رمز التحديث
+  private refreshTokenQueue: Promise<unknown> = Promise.resolve();
 
-  constructor() {
-    // Initialize UserManager with configuration from authConfig.ts
-    // تهيئة UserManager مع التكوين من authConfig.ts
-    this.userManager = new UserManager(authConfig);
-    this.setupEventHandlers();
+  constructor(config: AuthServiceConfig) {
+    this.providers = config.providers;
+    this.renewStrategies = config.renewStrategies;
+    this.sessionChangeAction = config.sessionChangeAction;
+    const instanceKey = `${this.providers[0].identityServerUrl}:${this.providers[0].clientId}`;
+    this.activeProviderKey = `${ACTIVE_PROVIDER_KEY_PREFIX}:${instanceKey}`;
+    this.refreshTokenLock = `${REFRESH_TOKEN_LOCK_PREFIX}:${instanceKey}`;
+
+    // Initialize one UserManager per provider with configuration from authConfig.ts
+    // All providers share one token store (backend selected by "tokenStorage")
+    // تهيئة UserManager لكل موفر مع التكوين من authConfig.ts
+    // جميع الموفرين يتشاركون مخزن رموز واحد (الواجهة الخلفية المختارة بواسطة "tokenStorage")
+    // With "dpop" on, tokens are bound to a key pair persisted in IndexedDB (removed on sign out)
+    // مع تفعيل "dpop"، ترتبط الرموز بزوج مفاتيح محفوظ في IndexedDB (يُزال عند تسجيل الخروج)
+    const userStore = createUserStore(config.tokenStorage);
+    this.sharesTokenStore = isSharedTokenStorage(config.tokenStorage);
+    const dpopStore = config.dpop ? new IndexedDbDPoPStore() : undefined;
+    this.providers.forEach((provider) => {
+      const userManager = new UserManager(createAuthConfig(provider, config, userStore, dpopStore));
+      this.userManagers.set(provider.id, userManager);
+      this.setupEventHandlers(userManager);
+    });
+    this.sessionSync = new SessionSync();
+    this.subscriptions.push(this.sessionSync.subscribe((type) => this.applyRemoteSessionEvent(type)));
+
+    // Ship every auth event to the ops audit endpoint, when one is configured
+    // إرسال كل حدث مصادقة إلى نقطة نهاية تدقيق العمليات، عند تكوينها
+    if (config.audit) {
+      this.auditSink = new HttpAuditSink(config.audit);
+      this.subscriptions.push(attachAuditSink(this.events, this.auditSink));
+    }
+
+    this.userManager.getUser().then((user) => {
+      this.currentSubject = user?.profile.sub;
+    }).catch(() => {
+      // getUser() errors are reported when AuthContext loads the user / يتم الإبلاغ عنها عند تحميل AuthContext للمستخدم
+    });
+  }
+
+  /**
+   * Active User Manager
+   * UserManager of the active provider - used by every operation on the current user
+   * 
+   * User Manager النشط
+   * UserManager الخاص بالموفر النشط - يُستخدم في كل عملية على المستخدم الحالي
+   */
+  private get userManager(): UserManager {
+    return this.getUserManager();
+  }
+
+  /**
+   * Get Active Provider Function
+   * Returns the id of the provider the user signed in with last (SBC by default)
+   * 
+   * وظيفة الحصول على الموفر النشط
+   * يعيد معرف الموفر الذي سجل المستخدم الدخول به آخر مرة (SBC افتراضياً)
+   */
+  public getActiveProviderId(): string {
+    const stored = window.localStorage.getItem(this.activeProviderKey);
+    return stored && this.userManagers.has(stored) ? stored : this.providers[0].id;
+  }
+
+  /**
+   * Set Active Provider
+   * Called once a sign-in has succeeded - switching provider drops the previous
+   * provider's stored user, so only one user (and one set of expiry timers) exists at a time
+   * The previous provider is no longer active when its user is removed, so its
+   * userUnloaded is not treated as a sign-out
+   * 
+   * تعيين الموفر النشط
+   * يُستدعى بعد نجاح تسجيل الدخول - تبديل الموفر يحذف المستخدم المخزن للموفر السابق،
+   * حتى يوجد مستخدم واحد (ومجموعة واحدة من مؤقتات الانتهاء) في كل مرة
+   * لم يعد الموفر السابق نشطاً عند إزالة مستخدمه، لذا لا يُعامل userUnloaded الخاص به كتسجيل خروج
+   */
+  private async setActiveProvider(providerId: string): Promise<void> {
+    const previous = this.getActiveProviderId();
+    window.localStorage.setItem(this.activeProviderKey, providerId);
+    if (previous !== providerId) {
+      await this.getUserManager(previous).removeUser();
+    }
+  }
+
+  /**
+   * Is Active User Manager
+   * True for the UserManager of the active provider
+   * 
+   * هل هو User Manager النشط
+   * صحيح لـ UserManager الخاص بالموفر النشط
+   */
+  public isActiveUserManager(userManager: UserManager): boolean {
+    return this.userManager === userManager;
+  }
+
+  /**
+   * Get Providers Function
+   * Identity providers listed on the Login page
+   * 
+   * وظيفة الحصول على الموفرين
+   * موفرو الهوية المعروضون في صفحة تسجيل الدخول
+   */
+  public getProviders(): IdentityProvider[] {
+    return this.providers;
+  }
+
+  /**
+   * Emit Function
+   * Emits a typed auth event tagged with the current user's subject
+   * 
+   * وظيفة الإطلاق
+   * يطلق حدث مصادقة مكتوب موسوماً بمعرف المستخدم الحالي
+   */
+  private emit<K extends AuthEventType>(type: K, payload: AuthEventMap[K]): void {
+    this.events.emit(type, payload, this.currentSubject);
   }
 
   /**
    * Setup Event Handlers
-   * Registers listeners for OIDC events (user loaded, token expired, etc.)
+   * Registers listeners for OIDC events (user loaded, token expired, etc.) of one provider
+   * Only the active provider has a stored user, so only its events fire
    * These events are used by AuthContext to update React state
    * 
    * إعداد معالجات الأحداث
-   * يسجل مستمعي أحداث OIDC (تحميل المستخدم، انتهاء الرمز المميز، إلخ)
+   * يسجل مستمعي أحداث OIDC (تحميل المستخدم، انتهاء الرمز المميز، إلخ) لموفر واحد
+   * الموفر النشط فقط لديه مستخدم مخزن، لذا تنطلق أحداثه فقط
    * يتم استخدام هذه الأحداث بواسطة AuthContext لتحديث حالة React
    */
-  private setupEventHandlers() {
+  private setupEventHandlers(userManager: UserManager) {
     // User loaded event - fired after successful login or token refresh
     // حدث تحميل المستخدم - يتم تشغيله بعد تسجيل الدخول الناجح أو تحديث الرمز المميز
-    this.userManager.events.addUserLoaded((user) => {
+    this.subscriptions.push(userManager.events.addUserLoaded((user) => {
       console.log('User loaded:', user.profile);
-    });
+      this.currentSubject = user.profile.sub;
+      this.apiTokens.clear();
+      if (!this.isApplyingRemoteEvent && this.sharesTokenStore) {
+        this.sessionSync.broadcast(this.isCompletingLogin ? 'login' : 'renewed');
+      }
+    }));
 
     // User unloaded event - fired after logout
+    // Ignored for the previous provider, whose user is dropped after a provider switch
     // حدث إلغاء تحميل المستخدم - يتم تشغيله بعد تسجيل الخروج
-    this.userManager.events.addUserUnloaded(() => {
+    // يتم تجاهله للموفر السابق، الذي يُحذف مستخدمه بعد تبديل الموفر
+    this.subscriptions.push(userManager.events.addUserUnloaded(() => {
+      if (!this.isActiveUserManager(userManager)) {
+        return;
+      }
       console.log('User unloaded');
-    });
-
-    // Silent renew error - fired if silent token renewal fails
-    // خطأ التجديد الصامت - يتم تشغيله إذا فشل تحديث الرمز المميز الصامت
-    this.userManager.events.addSilentRenewError((error) => {
-      console.error('Silent renew error:', error);
-    });
+      this.currentSubject = undefined;
+      this.apiTokens.clear();
+    }));
 
-    // Access token expiring - fired before token expires (for warnings)
-    // انتهاء رمز الوصول - يتم تشغيله قبل انتهاء الرمز المميز (للتحذيرات)
-    this.userManager.events.addAccessTokenExpiring(() => {
+    // Access token expiring - fired before token expires
+    // Renew now; failures are emitted as 'renewFailed' events
+    // انتهاء رمز الوصول - يتم تشغيله قبل انتهاء الرمز المميز
+    // التجديد الآن؛ يتم إطلاق حالات الفشل كأحداث 'renewFailed'
+    this.subscriptions.push(userManager.events.addAccessTokenExpiring(() => {
       console.log('Access token expiring...');
-    });
+      this.emit('tokenExpiring', {});
+      this.renewToken().catch(() => {
+        // Already emitted as 'renewFailed' / تم إطلاقه بالفعل كـ 'renewFailed'
+      });
+    }));
 
     // Access token expired - fired when token has expired
-    // When this happens, automatically logout user
+    // Removes the user locally; the 'tokenExpired' event shows the expiry dialog,
+    // which lets the user sign in again (no redirect to Identity Server here)
     // انتهت صلاحية رمز الوصول - يتم تشغيله عندما ينتهي الرمز المميز
-    // عندما يحدث هذا، قم بتسجيل خروج المستخدم تلقائياً
-    this.userManager.events.addAccessTokenExpired(() => {
+    // يزيل المستخدم محلياً؛ حدث 'tokenExpired' يعرض نافذة الانتهاء،
+    // التي تتيح للمستخدم تسجيل الدخول مرة أخرى (بدون إعادة توجيه إلى خادم الهوية هنا)
+    this.subscriptions.push(userManager.events.addAccessTokenExpired(() => {
       console.log('Access token expired');
-      this.logout();
-    });
+      this.emit('tokenExpired', {});
+      this.removeUser({ reason: 'tokenExpired' }).catch((error) => {
+        console.error('Error removing the expired user:', error);
+      });
+    }));
+
+    // Session monitor (monitorSession) - the user signed out of Identity Server,
+    // e.g. in another SBC application, or another user signed in there
+    // مراقب الجلسة (monitorSession) - سجل المستخدم خروجه من خادم الهوية،
+    // مثلاً في تطبيق SBC آخر، أو سجل مستخدم آخر الدخول هناك
+    this.subscriptions.push(userManager.events.addUserSignedOut(() => {
+      this.handleSessionChange('signedOut');
+    }));
+
+    // Session monitor - same user, but the Identity Server session changed
+    // مراقب الجلسة - نفس المستخدم، ولكن جلسة خادم الهوية تغيرت
+    this.subscriptions.push(userManager.events.addUserSessionChanged(() => {
+      this.handleSessionChange('changed');
+    }));
+  }
+
+  /**
+   * Handle Session Change
+   * Applies the configured sessionChangeAction - for 'prompt', AuthProvider
+   * shows SessionChangedDialog from the 'sessionChanged' event
+   * 
+   * معالجة تغيير الجلسة
+   * يطبق sessionChangeAction المحدد - في حالة 'prompt'، يعرض AuthProvider
+   * نافذة SessionChangedDialog من حدث 'sessionChanged'
+   */
+  private handleSessionChange(change: SessionChangeType): void {
+    const action = this.sessionChangeAction;
+    console.log(`Identity Server session ${change === 'signedOut' ? 'ended' : 'changed'} - ${action}`);
+    this.emit('sessionChanged', { change, action });
+
+    if (action === 'logout') {
+      this.removeUser({ reason: 'sessionEnded' }).catch((error) => {
+        console.error('Error removing user after session change:', error);
+      });
+    } else if (action === 'revalidate') {
+      this.revalidateSession().catch(() => {
+        // Already logged by revalidateSession() / تم تسجيله بالفعل بواسطة revalidateSession()
+      });
+    }
+  }
+
+  /**
+   * Apply Remote Session Event
+   * Handles login/logout/renewal broadcast by another tab
+   * Reloading or removing the user fires userLoaded/userUnloaded, which AuthContext listens to
+   * 
+   * تطبيق حدث جلسة بعيد
+   * يتعامل مع تسجيل الدخول/الخروج/التجديد المبثوث من تبويب آخر
+   * إعادة تحميل المستخدم أو إزالته يطلق userLoaded/userUnloaded، والتي يستمع إليها AuthContext
+   */
+  private async applyRemoteSessionEvent(type: SessionSyncEventType): Promise<void> {
+    this.isApplyingRemoteEvent = true;
+    try {
+      if (type === 'logout') {
+        this.emit('logout', { reason: 'otherTab' });
+        await this.userManager.removeUser();
+        return;
+      }
+
+      // A per-tab store cannot see the other tab's user - keep our own session
+      // المخزن الخاص بكل تبويب لا يرى مستخدم التبويب الآخر - احتفظ بجلستنا الخاصة
+      if (!this.sharesTokenStore) {
+        return;
+      }
+
+      // Tokens are shared through the user store - read what the other tab saved
+      // الرموز المميزة مشتركة عبر مخزن المستخدم - اقرأ ما حفظه التبويب الآخر
+      const user = await this.userManager.getUser();
+      if (user) {
+        await this.userManager.events.load(user);
+      }
+    } catch (error) {
+      console.error('Error applying session event from another tab:', error);
+    } finally {
+      this.isApplyingRemoteEvent = false;
+    }
   }
 
   /**
    * Login Function
    * Initiates OIDC login flow by redirecting browser to Identity Server
    * User will authenticate on Identity Server, then be redirected back to /auth/callback
+   * (partner providers: /auth/callback/<provider id>)
    * 
    * وظيفة تسجيل الدخول
    * يبدأ تدفق تسجيل الدخول OIDC عن طريق إعادة توجيه المتصفح إلى خادم الهوية
    * سيتم التحقق من المستخدم على خادم الهوية، ثم إعادة توجيهه إلى /auth/callback
+   * (الموفرون الشركاء: /auth/callback/<معرف الموفر>)
    */
-  public async login(): Promise<void> {
+  public async login({ mode = 'redirect', returnTo, provider = this.getActiveProviderId(), prompt }: LoginOptions = {}): Promise<void> {
+    const userManager = this.getUserManager(provider);
+    this.emit('loginStarted', { mode, provider });
+    // The provider only becomes active after the sign-in succeeds (completeLogin / popup)
+    // - an abandoned or failed sign-in keeps the current session
+    // يصبح الموفر نشطاً فقط بعد نجاح تسجيل الدخول (completeLogin / النافذة المنبثقة)
+    // - تسجيل دخول متروك أو فاشل يحتفظ بالجلسة الحالية
+    const state: SigninState = { returnTo, provider };
     try {
+      if (mode === 'popup') {
+        await this.loginWithPopup(userManager, provider, state, prompt);
+        return;
+      }
+
       // This redirects the browser - function won't return until callback
+      // The state is kept per request, so concurrent logins in other tabs don't mix
       // هذا يعيد توجيه المتصفح - لن تعود الوظيفة حتى الاستدعاء
-      await this.userManager.signinRedirect();
+      // يتم حفظ الحالة لكل طلب، لذا لا تختلط عمليات تسجيل الدخول المتزامنة في التبويبات الأخرى
+      await userManager.signinRedirect({ state, prompt });
     } catch (error) {
-      console.error('Error during login:', error);
+      const authError = toAuthError(error);
+      console.error(`Error during login [${authError.diagnosticId}]:`, authError.cause || authError);
+      this.emit('loginFailed', { error: authError, kind: authError.kind, diagnosticId: authError.diagnosticId });
       throw error;
     }
   }
 
+  /**
+   * Login With Popup Function
+   * Opens Identity Server in a popup - the page (and unsaved state) stays in place
+   * Falls back to redirect login when the browser blocks the popup
+   * 
+   * وظيفة تسجيل الدخول بنافذة منبثقة
+   * يفتح خادم الهوية في نافذة منبثقة - تبقى الصفحة (والحالة غير المحفوظة) في مكانها
+   * يعود إلى تسجيل الدخول بإعادة التوجيه عندما يحظر المتصفح النافذة المنبثقة
+   */
+  private async loginWithPopup(userManager: UserManager, provider: string, state: SigninState, prompt?: string): Promise<void> {
+    this.isCompletingLogin = true;
+    try {
+      const user = await userManager.signinPopup({ state, prompt });
+      await this.setActiveProvider(provider);
+      console.log('Popup login completed:', user.profile);
+      this.emit('loginCompleted', { mode: 'popup', provider });
+    } catch (error) {
+      if (!isPopupBlockedError(error)) {
+        throw error;
+      }
+      console.warn('Login popup was blocked - falling back to redirect');
+      await userManager.signinRedirect({ state, prompt });
+    } finally {
+      this.isCompletingLogin = false;
+    }
+  }
+
   /**
    * Complete Login Function
    * Processes the OIDC callback after Identity Server redirects back
    * Exchanges authorization code for access token and ID token
    * Stores user in localStorage
+   * providerId comes from the callback route and picks the UserManager that started the login
+   * Failures are thrown (and emitted as 'loginFailed') as typed AuthErrors
    * 
    * وظيفة إكمال تسجيل الدخول
    * يعالج استدعاء OIDC بعد أن يعيد خادم الهوية التوجيه
    * يستبدل رمز التفويض برمز الوصول ورمز الهوية
    * يحفظ المستخدم في localStorage
+   * providerId يأتي من مسار الاستدعاء ويختار UserManager الذي بدأ تسجيل الدخول
+   * يتم رمي حالات الفشل (وإطلاقها كـ 'loginFailed') كأخطاء AuthError مكتوبة
    */
-  public async completeLogin(): Promise<User | null> {
+  public async completeLogin(providerId: string = PRIMARY_PROVIDER_ID): Promise<User | null> {
+    this.isCompletingLogin = true;
     try {
+      const userManager = this.getUserManager(providerId);
+
       // Process callback URL, exchange code for tokens
       // معالجة عنوان URL للاستدعاء، استبدال الرمز بالرموز المميزة
-      const user = await this.userManager.signinRedirectCallback();
+      const user = await userManager.signinRedirectCallback();
+
+      // Signed in - switch to the provider recorded by login() (other sign-ins: the callback route's)
+      // تم تسجيل الدخول - التبديل إلى الموفر المسجل بواسطة login() (تسجيلات الدخول الأخرى: موفر مسار الاستدعاء)
+      await this.setActiveProvider((user.state as SigninState | undefined)?.provider ?? providerId);
+
+      // A wrong device clock breaks expiry timers and auth_time checks - reject the session
+      // ساعة جهاز خاطئة تعطل مؤقتات الانتهاء وفحوصات auth_time - ارفض الجلسة
+      const skewSeconds = getClockSkewSeconds(user);
+      if (Math.abs(skewSeconds) > MAX_CLOCK_SKEW_SECONDS) {
+        await userManager.removeUser();
+        this.sessionSync.broadcast('logout');
+        throw new ClockSkewError(skewSeconds);
+      }
+
       console.log('Login completed:', user.profile);
+      this.emit('loginCompleted', { mode: 'redirect', provider: providerId });
+
+      // A step-up redirect resumes its action only if Identity Server really re-authenticated
+      // إعادة توجيه step-up تستأنف إجراءها فقط إذا أعاد خادم الهوية المصادقة فعلاً
+      const stepUp = (user.state as SigninState | undefined)?.stepUp;
+      if (stepUp) {
+        if (isRecentAuth(user, stepUp)) {
+          this.resumedAction = stepUp.action ?? null;
+          this.emit('stepUpCompleted', { mode: 'redirect' });
+        } else {
+          console.warn('Step-up sign-in did not meet the requirement:', stepUp);
+        }
+      }
       return user;
     } catch (error) {
-      console.error('Error completing login:', error);
+      const authError = toAuthError(error);
+      console.error(`Error completing login [${authError.diagnosticId}]:`, authError.cause || authError);
+      this.emit('loginFailed', { error: authError, kind: authError.kind, diagnosticId: authError.diagnosticId });
+      throw authError;
+    } finally {
+      this.isCompletingLogin = false;
+    }
+  }
+
+  /**
+   * Require Recent Auth Function
+   * Resolves with the user when they signed in recently enough (auth_time / acr),
+   * otherwise re-authenticates with max_age / acr_values first
+   * Popup: resolves after the re-authentication, so the caller continues its action
+   * Redirect (or blocked popup): resolves with null - the app leaves and the action
+   * is resumed after the callback (takeResumedAction)
+   * 
+   * وظيفة طلب مصادقة حديثة
+   * يُحل بالمستخدم عندما يكون قد سجل الدخول مؤخراً بما يكفي (auth_time / acr)،
+   * وإلا يعيد المصادقة مع max_age / acr_values أولاً
+   * نافذة منبثقة: يُحل بعد إعادة المصادقة، لذا يكمل المستدعي إجراءه
+   * إعادة توجيه (أو نافذة محظورة): يُحل بـ null - يغادر التطبيق ويُستأنف
+   * الإجراء بعد الاستدعاء (takeResumedAction)
+   */
+  public async requireRecentAuth({
+    maxAgeSeconds = DEFAULT_RECENT_AUTH_MAX_AGE_SECONDS,
+    acrValues = [],
+    mode = 'popup',
+    returnTo,
+    action,
+  }: RecentAuthOptions = {}): Promise<User | null> {
+    const requirement: RecentAuthRequirement = { maxAgeSeconds, acrValues };
+    const userManager = this.userManager;
+    const currentUser = await userManager.getUser();
+    if (isRecentAuth(currentUser, requirement)) {
+      return currentUser;
+    }
+
+    this.emit('stepUpStarted', { mode, maxAgeSeconds, acrValues });
+
+    // max_age makes Identity Server ask for the credentials again, acr_values for the method
+    // max_age يجعل خادم الهوية يطلب بيانات الاعتماد مرة أخرى، و acr_values للطريقة
+    const args = {
+      max_age: maxAgeSeconds,
+      acr_values: acrValues.length > 0 ? acrValues.join(' ') : undefined,
+    };
+
+    if (mode === 'popup') {
+      this.isCompletingLogin = true;
+      try {
+        const user = await userManager.signinPopup(args);
+        if (!isRecentAuth(user, requirement)) {
+          throw new StepUpError();
+        }
+        this.emit('stepUpCompleted', { mode });
+        return user;
+      } catch (error) {
+        if (!isPopupBlockedError(error)) {
+          throw toAuthError(error);
+        }
+        console.warn('Step-up popup was blocked - falling back to redirect');
+      } finally {
+        this.isCompletingLogin = false;
+      }
+    }
+
+    const state: SigninState = { returnTo, stepUp: { ...requirement, action } };
+    await userManager.signinRedirect({ ...args, state });
+    return null;
+  }
+
+  /**
+   * Take Resumed Action Function
+   * True once for the action whose step-up redirect just completed
+   * 
+   * وظيفة أخذ الإجراء المستأنف
+   * صحيح مرة واحدة للإجراء الذي اكتملت إعادة توجيه step-up الخاصة به للتو
+   */
+  public takeResumedAction(action: string): boolean {
+    if (this.resumedAction !== action) {
+      return false;
+    }
+    this.resumedAction = null;
+    return true;
+  }
+
+  /**
+   * Complete Popup Login Function
+   * Runs inside the popup window: hands the callback URL back to the main window
+   * The main window's signinPopup() then exchanges the code for tokens
+   * 
+   * وظيفة إكمال تسجيل الدخول المنبثق
+   * يعمل داخل النافذة المنبثقة: يعيد عنوان URL للاستدعاء إلى النافذة الرئيسية
+   * ثم يستبدل signinPopup() في النافذة الرئيسية الرمز بالرموز المميزة
+   */
+  public async completePopupLogin(): Promise<void> {
+    try {
+      await this.userManager.signinPopupCallback();
+    } catch (error) {
+      console.error('Error completing popup login:', error);
       throw error;
     }
   }
@@ -152,17 +736,30 @@ class AuthService {
   /**
    * Logout Function
    * Initiates OIDC logout flow by redirecting to Identity Server logout endpoint
-   * Clears session on Identity Server and redirects back to app
+   * Clears session on Identity Server and redirects back to /signout-callback
+   * With { scope: 'local' } only the tokens of this app are removed
    * 
    * وظيفة تسجيل الخروج
    * يبدأ تدفق تسجيل الخروج OIDC عن طريق إعادة التوجيه إلى نقطة نهاية تسجيل خروج خادم الهوية
-   * يمسح الجلسة على خادم الهوية ويعيد التوجيه إلى التطبيق
+   * يمسح الجلسة على خادم الهوية ويعيد التوجيه إلى /signout-callback
+   * مع { scope: 'local' } تتم إزالة رموز هذا التطبيق فقط
    */
-  public async logout(): Promise<void> {
+  public async logout({ reason = 'user', scope = 'global' }: LogoutOptions = {}): Promise<void> {
+    if (scope === 'local') {
+      await this.removeUser({ reason });
+      return;
+    }
+
+    this.emit('logout', { reason });
     try {
+      // Lock the other tabs before this one leaves the app
+      // قفل التبويبات الأخرى قبل أن يغادر هذا التبويب التطبيق
+      this.sessionSync.broadcast('logout');
+
       // Redirects browser to Identity Server logout endpoint
       // يعيد توجيه المتصفح إلى نقطة نهاية تسجيل خروج خادم الهوية
-      await this.userManager.signoutRedirect();
+      const state: SignoutState = { reason };
+      await this.userManager.signoutRedirect({ state });
     } catch (error) {
       console.error('Error during logout:', error);
       throw error;
@@ -173,14 +770,17 @@ class AuthService {
    * Complete Logout Function
    * Processes logout callback after Identity Server redirects back
    * Clears user data from localStorage
+   * Returns the state sent by logout()
    * 
    * وظيفة إكمال تسجيل الخروج
    * يعالج استدعاء تسجيل الخروج بعد أن يعيد خادم الهوية التوجيه
    * يمسح بيانات المستخدم من localStorage
+   * يعيد الحالة المرسلة بواسطة logout()
    */
-  public async completeLogout(): Promise<void> {
+  public async completeLogout(): Promise<SignoutState> {
     try {
-      await this.userManager.signoutRedirectCallback();
+      const response = await this.userManager.signoutRedirectCallback();
+      return (response.userState as SignoutState | undefined) || {};
     } catch (error) {
       console.error('Error completing logout:', error);
       throw error;
@@ -220,15 +820,200 @@ class AuthService {
   /**
    * Get Access Token Function
    * Returns the current access token for making authenticated API calls
+   * With { scopes }: a token for those API scopes only (see apiTokens.ts) - rejects with
+   * ConsentRequiredError while the user has not consented to them; never opens a popup
+   * or redirects itself, the app asks for consent from a user action (requestScopes)
    * Returns null if no user or token expired
    * 
    * وظيفة الحصول على رمز الوصول
    * يعيد رمز الوصول الحالي لإجراء استدعاءات API مصادق عليها
+   * مع { scopes }: رمز لنطاقات API هذه فقط (انظر apiTokens.ts) - يرفض بـ ConsentRequiredError
+   * ما دام المستخدم لم يوافق عليها؛ لا يفتح نافذة منبثقة ولا يعيد التوجيه بنفسه أبداً،
+   * يطلب التطبيق الموافقة من إجراء المستخدم (requestScopes)
    * يعيد null إذا لم يكن هناك مستخدم أو انتهى الرمز المميز
    */
-  public async getAccessToken(): Promise<string | null> {
+  public async getAccessToken({ scopes = [] }: AccessTokenOptions = {}): Promise<string | null> {
     const user = await this.getUser();
-    return user?.access_token || null;
+    if (!user || scopes.length === 0) {
+      return user?.access_token || null;
+    }
+
+    const missing = getMissingScopes(user, scopes);
+    if (missing.length > 0) {
+      throw new ConsentRequiredError(missing);
+    }
+
+    const key = toScopeKey(scopes);
+    const cached = this.apiTokens.get(key);
+    if (cached) {
+      return cached.accessToken;
+    }
+
+    let request = this.apiTokenRequests.get(key);
+    if (!request) {
+      request = this.fetchApiToken(scopes).finally(() => {
+        this.apiTokenRequests.delete(key);
+      });
+      this.apiTokenRequests.set(key, request);
+    }
+    return request;
+  }
+
+  /**
+   * Get DPoP Proof Function
+   * Signs a DPoP proof for one API request (method + URL without query), bound to the
+   * access token actually sent - null when DPoP is off (send a Bearer token instead)
+   * nonce: the last DPoP-Nonce the API sent
+   *
+   * وظيفة الحصول على إثبات DPoP
+   * يوقع إثبات DPoP لطلب API واحد (الطريقة + عنوان URL بدون استعلام)، مرتبطاً برمز الوصول
+   * المرسل فعلاً - null عند تعطيل DPoP (أرسل رمز Bearer بدلاً من ذلك)
+   * nonce: آخر DPoP-Nonce أرسله API
+   */
+  public async getDpopProof(url: string, method: string, accessToken: string, nonce?: string): Promise<string | null> {
+    const userManager = this.userManager;
+    if (!userManager.settings.dpop) {
+      return null;
+    }
+
+    const user = await userManager.getUser();
+    if (!user) {
+      return null;
+    }
+
+    // Per-API tokens differ from user.access_token - the proof hash (ath) must match the one sent
+    // رموز API تختلف عن user.access_token - يجب أن يطابق هاش الإثبات (ath) الرمز المرسل
+    const proof = await userManager.dpopProof(url, new User({ ...user, access_token: accessToken }), method.toUpperCase(), nonce);
+    return proof ?? null;
+  }
+
+  /**
+   * Fetch Api Token
+   * Downscopes the refresh token to the given scopes and caches the result
+   * Without a refresh token (iframe renewal only) the login access token is used
+   * 
+   * جلب رمز API
+   * يضيق نطاق رمز التحديث إلى النطاقات المعطاة ويخزن النتيجة مؤقتاً
+   * بدون رمز تحديث (التجديد عبر iframe فقط) يُستخدم رمز الوصول الخاص بتسجيل الدخول
+   */
+  private async fetchApiToken(scopes: string[]): Promise<string | null> {
+    const userManager = this.userManager;
+    return this.withRefreshToken(async () => {
+      const user = await userManager.getUser();
+      if (!user || user.expired) {
+        return null;
+      }
+      if (!user.refresh_token) {
+        return user.access_token;
+      }
+
+      const { token, refreshToken } = await requestApiToken(userManager, user.refresh_token, scopes);
+      if (refreshToken) {
+        user.refresh_token = refreshToken;
+        await userManager.storeUser(user);
+      }
+      this.apiTokens.set(toScopeKey(scopes), token);
+      return token.accessToken;
+    });
+  }
+
+  /**
+   * Request Scopes Function
+   * Incremental consent: signs in again with the granted scopes plus the missing ones,
+   * so Identity Server only asks for consent to the new scopes
+   * Popup by default (falls back to redirect when blocked - resolves with null)
+   * Call it from a user action (e.g. ConsentPrompt) - browsers block popups opened otherwise
+   * 
+   * وظيفة طلب النطاقات
+   * موافقة تدريجية: يسجل الدخول مرة أخرى بالنطاقات الممنوحة بالإضافة إلى المفقودة،
+   * حتى يطلب خادم الهوية الموافقة على النطاقات الجديدة فقط
+   * نافذة منبثقة افتراضياً (يعود إلى إعادة التوجيه عند الحظر - يُحل بـ null)
+   * استدعها من إجراء المستخدم (مثل ConsentPrompt) - تحظر المتصفحات النوافذ المنبثقة المفتوحة بغير ذلك
+   */
+  public requestScopes(scopes: string[], { mode = 'popup' }: { mode?: LoginMode } = {}): Promise<User | null> {
+    const request = this.scopeRequestQueue.then(() => this.consentToScopes(scopes, mode));
+    this.scopeRequestQueue = request.catch(() => undefined);
+    return request;
+  }
+
+  /**
+   * Consent To Scopes
+   * Runs the sign-in for requestScopes()
+   * 
+   * الموافقة على النطاقات
+   * يشغل تسجيل الدخول لـ requestScopes()
+   */
+  private async consentToScopes(scopes: string[], mode: LoginMode): Promise<User | null> {
+    const userManager = this.userManager;
+    const user = await userManager.getUser();
+    if (!user) {
+      throw new Error('Sign in before requesting additional scopes');
+    }
+
+    const missing = getMissingScopes(user, scopes);
+    if (missing.length === 0) {
+      return user;
+    }
+
+    this.emit('scopesRequested', { scopes: missing, mode });
+    const scope = toScopeKey([...user.scopes, ...missing]);
+
+    if (mode === 'popup') {
+      this.isCompletingLogin = true;
+      try {
+        return await userManager.signinPopup({ scope });
+      } catch (error) {
+        if (!isPopupBlockedError(error)) {
+          throw error;
+        }
+        console.warn('Consent popup was blocked - falling back to redirect');
+      } finally {
+        this.isCompletingLogin = false;
+      }
+    }
+
+    const { pathname, search, hash } = window.location;
+    const state: SigninState = { returnTo: { pathname, search, hash } };
+    await userManager.signinRedirect({ scope, state });
+    return null;
+  }
+
+  /**
+   * With Refresh Token
+   * Queues a task that uses the refresh token behind the ones already running, and runs
+   * it holding a Web Lock so only one tab uses the token at a time (browsers without
+   * Web Locks only queue within the tab)
+   * Tasks must read the user again - another tab may have rotated the token meanwhile
+   * 
+   * مع رمز التحديث
+   * يضع مهمة تستخدم رمز التحديث في الطابور خلف المهام الجارية، ويشغلها مع حجز قفل ويب
+   * حتى يستخدم تبويب واحد فقط الرمز في كل مرة (المتصفحات بدون Web Locks تكتفي بالطابور داخل التبويب)
+   * يجب أن تقرأ المهام المستخدم مرة أخرى - ربما دوّر تبويب آخر الرمز في هذه الأثناء
+   */
+  private withRefreshToken<T>(task: () => Promise<T>): Promise<T> {
+    const locked = (): Promise<T> =>
+      'locks' in navigator ? navigator.locks.request(this.refreshTokenLock, task) : task();
+    const run = this.refreshTokenQueue.then(locked, locked);
+    this.refreshTokenQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Renew With Refresh Token
+   * Runs in withRefreshToken() - when another tab renewed while this one waited for the
+   * lock, its tokens are in the shared user store and are used instead of renewing again
+   * 
+   * التجديد برمز التحديث
+   * يعمل داخل withRefreshToken() - عندما يجدد تبويب آخر أثناء انتظار هذا التبويب للقفل،
+   * تكون رموزه في مخزن المستخدم المشترك وتُستخدم بدلاً من التجديد مرة أخرى
+   */
+  private async renewWithRefreshToken(previous: User): Promise<User | null> {
+    const user = await this.userManager.getUser();
+    if (user && !user.expired && user.access_token !== previous.access_token) {
+      console.log('Tokens were renewed by another tab');
+      return user;
+    }
+    return this.userManager.signinSilent();
   }
 
   /**
@@ -240,8 +1025,10 @@ class AuthService {
    * يزيل بيانات المستخدم من localStorage دون استدعاء الشبكة
    * يُستخدم لتسجيل الخروج المحلي دون تفاعل مع خادم الهوية
    */
-  public async removeUser(): Promise<void> {
+  public async removeUser({ reason = 'user' }: LogoutOptions = {}): Promise<void> {
+    this.emit('logout', { reason });
     await this.userManager.removeUser();
+    this.sessionSync.broadcast('logout');
   }
 
   /**
@@ -264,21 +1051,158 @@ class AuthService {
     }
   }
 
+  /**
+   * Revalidate Session Function
+   * Asks Identity Server (hidden iframe, prompt=none) whether this user is still signed in
+   * Signed out or another user → local logout; network failures keep the user
+   * 
+   * وظيفة إعادة التحقق من الجلسة
+   * يسأل خادم الهوية (iframe مخفي، prompt=none) عما إذا كان هذا المستخدم لا يزال مسجلاً الدخول
+   * تم تسجيل الخروج أو مستخدم آخر → تسجيل خروج محلي؛ أعطال الشبكة تبقي المستخدم
+   */
+  public async revalidateSession(): Promise<User | null> {
+    try {
+      // The refresh token would succeed even without an Identity Server session - use the iframe
+      // (with the scopes granted so far, incremental consent included)
+      // رمز التحديث سينجح حتى بدون جلسة خادم الهوية - استخدم iframe
+      // (مع النطاقات الممنوحة حتى الآن، بما فيها الموافقة التدريجية)
+      const user = await this.userManager.getUser();
+      return await this.userManager.signinSilent({ forceIframeAuth: true, scope: user?.scope });
+    } catch (error) {
+      if (toAuthError(error).kind === 'network') {
+        console.warn('Session revalidation could not reach Identity Server:', error);
+        throw error;
+      }
+      console.warn('Session is no longer valid on Identity Server - signing out:', error);
+      await this.removeUser({ reason: 'sessionEnded' });
+      return null;
+    }
+  }
+
+  /**
+   * Renew Token Function
+   * Requests new tokens silently (no redirect) - used on token expiring and by "Stay signed in"
+   * 
+   * وظيفة تجديد الرمز المميز
+   * يطلب رموزاً جديدة بصمت (بدون إعادة توجيه) - يُستخدم عند قرب انتهاء الرمز وبواسطة "البقاء مسجلاً الدخول"
+   */
+  public async renewToken(): Promise<User | null> {
+    if (!this.renewInFlight) {
+      this.emit('renewStarted', {});
+      this.renewInFlight = this.renewWithStrategies().finally(() => {
+        this.renewInFlight = null;
+      });
+    }
+    return this.renewInFlight;
+  }
+
+  /**
+   * Renew With Strategies
+   * Tries each configured strategy in order, falling back to the next one on failure
+   * A strategy that returns no user has failed too
+   * Emits 'renewSucceeded' or, when every strategy failed, 'renewFailed'
+   * 
+   * التجديد بالاستراتيجيات
+   * يجرب كل استراتيجية محددة بالترتيب، وينتقل إلى التالية عند الفشل
+   * الاستراتيجية التي لا تعيد مستخدماً قد فشلت أيضاً
+   * يطلق 'renewSucceeded' أو، عند فشل جميع الاستراتيجيات، 'renewFailed'
+   */
+  private async renewWithStrategies(): Promise<User> {
+    let lastError: Error = new Error('No renew strategy could be used');
+
+    for (const strategy of this.renewStrategies) {
+      try {
+        const currentUser = await this.userManager.getUser();
+        if (strategy === 'refreshToken' && !currentUser?.refresh_token) {
+          continue;
+        }
+
+        // signinSilent() uses the refresh token when present, forceIframeAuth skips it
+        // The iframe asks again for the scopes granted so far (incremental consent included)
+        // signinSilent() يستخدم رمز التحديث عند وجوده، forceIframeAuth يتجاوزه
+        // يطلب iframe مرة أخرى النطاقات الممنوحة حتى الآن (بما فيها الموافقة التدريجية)
+        const user = strategy === 'refreshToken' && currentUser
+          ? await this.withRefreshToken(() => this.renewWithRefreshToken(currentUser))
+          : await this.userManager.signinSilent({ forceIframeAuth: true, scope: currentUser?.scope });
+        if (!user) {
+          throw new Error(`Token renewal with ${strategy} returned no tokens`);
+        }
+        this.emit('renewSucceeded', { strategy });
+        return user;
+      } catch (error) {
+        console.warn(`Token renewal with ${strategy} failed:`, error);
+        lastError = error instanceof Error ? error : new Error(String(error));
+      }
+    }
+
+    // Typed once here, so the diagnostic ID stays the same wherever the error is shown
+    // يتم تصنيفه مرة واحدة هنا، حتى يبقى معرف التشخيص نفسه أينما يُعرض الخطأ
+    const authError = toAuthError(lastError);
+    console.error(`Error renewing token [${authError.diagnosticId}]:`, lastError);
+    this.emit('renewFailed', { error: authError, strategies: this.renewStrategies });
+    throw authError;
+  }
+
   /**
    * Get User Manager Function
-   * Exposes the underlying UserManager instance
-   * Used by AuthContext to subscribe to OIDC events
+   * Exposes the underlying UserManager instance of a provider (default: the active one)
    * 
    * وظيفة الحصول على User Manager
-   * يكشف مثيل UserManager الأساسي
-   * يُستخدم بواسطة AuthContext للاشتراك في أحداث OIDC
+   * يكشف مثيل UserManager الأساسي لموفر (الافتراضي: الموفر النشط)
+   */
+  public getUserManager(providerId: string = this.getActiveProviderId()): UserManager {
+    const userManager = this.userManagers.get(providerId);
+    if (!userManager) {
+      throw new Error(`Unknown identity provider "${providerId}"`);
+    }
+    return userManager;
+  }
+
+  /**
+   * Get User Managers Function
+   * Exposes the UserManager instances of all providers
+   * Used by AuthContext to subscribe to OIDC events whichever provider is signed in
+   * 
+   * وظيفة الحصول على User Managers
+   * يكشف مثيلات UserManager لجميع الموفرين
+   * يُستخدم بواسطة AuthContext للاشتراك في أحداث OIDC أياً كان الموفر المسجل
    */
-  public getUserManager(): UserManager {
-    return this.userManager;
+  public getUserManagers(): UserManager[] {
+    return Array.from(this.userManagers.values());
+  }
+
+  /**
+   * Dispose Function
+   * Detaches every listener and timer of this service (OIDC events, expiry timers,
+   * tab sync, audit timer) and sends the last audit records - for tests, hot reload
+   * or anything else that replaces the service; the stored user is kept
+   *
+   * وظيفة التخلص
+   * يفصل كل مستمع ومؤقت لهذه الخدمة (أحداث OIDC، مؤقتات الانتهاء، مزامنة التبويبات،
+   * مؤقت التدقيق) ويرسل آخر سجلات التدقيق - للاختبارات أو إعادة التحميل السريع أو أي
+   * شيء آخر يستبدل الخدمة؛ يتم الاحتفاظ بالمستخدم المخزن
+   */
+  public async dispose(): Promise<void> {
+    this.subscriptions.splice(0).forEach((unsubscribe) => unsubscribe());
+    this.sessionSync.close();
+    this.getUserManagers().forEach((userManager) => {
+      userManager.stopSilentRenew();
+      // Cancels the accessTokenExpiring/Expired timers and the session monitor / يلغي مؤقتات الانتهاء ومراقب الجلسة
+      userManager.events.unload();
+    });
+    await this.auditSink?.dispose();
   }
 }
 
-// Export a singleton instance - only one AuthService exists for the entire app
-// تصدير مثيل singleton - يوجد مثيل واحد فقط من AuthService للتطبيق بالكامل
-export const authService = new AuthService();
-export default authService;
+/**
+ * Create Auth Service Function
+ * Builds an AuthService for the given config - the app creates one from the
+ * runtime config (getAuthServiceConfig) and hands it to AuthProvider;
+ * tests and other environments pass their own config
+ *
+ * وظيفة إنشاء خدمة المصادقة
+ * ينشئ AuthService للتكوين المعطى - ينشئ التطبيق واحدة من تكوين وقت التشغيل
+ * (getAuthServiceConfig) ويسلمها إلى AuthProvider؛
+ * تمرر الاختبارات والبيئات الأخرى تكوينها الخاص
+ */
+export const createAuthService = (config: AuthServiceConfig): AuthService => new AuthService(config);
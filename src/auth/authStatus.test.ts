@@ -0,0 +1,78 @@
+import { IdTokenClaims, User } from 'oidc-client-ts';
+import { authStateReducer, AuthState, INITIAL_AUTH_STATE } from './authStatus';
+import { AuthEvent, AuthEventMap, AuthEventType } from './events/authEvents';
+import { AuthError } from './errors/authErrors';
+
+const event = <K extends AuthEventType>(type: K, payload: AuthEventMap[K]): AuthEvent<K> => ({
+  type,
+  payload,
+  timestamp: Date.now(),
+});
+
+const createUser = (expiresInSeconds: number): User =>
+  new User({
+    access_token: 'access-token',
+    token_type: 'Bearer',
+    profile: { sub: 'user-1' } as IdTokenClaims,
+    expires_at: Math.floor(Date.now() / 1000) + expiresInSeconds,
+  });
+
+const authenticated: AuthState = { status: 'authenticated', error: null };
+
+describe('authStateReducer', () => {
+  it('starts authenticated with a valid stored user', () => {
+    expect(authStateReducer(INITIAL_AUTH_STATE, { type: 'initialized', user: createUser(300) })).toEqual(authenticated);
+  });
+
+  it('starts anonymous without a user or with an expired one', () => {
+    expect(authStateReducer(INITIAL_AUTH_STATE, { type: 'initialized', user: null }).status).toBe('anonymous');
+    expect(authStateReducer(INITIAL_AUTH_STATE, { type: 'initialized', user: createUser(-60) }).status).toBe('anonymous');
+  });
+
+  it('keeps events that arrived while the stored user was loading', () => {
+    const state = authStateReducer(INITIAL_AUTH_STATE, { type: 'userLoaded' });
+    expect(authStateReducer(state, { type: 'initialized', user: null })).toBe(state);
+  });
+
+  it('goes through a login', () => {
+    const authenticating = authStateReducer(INITIAL_AUTH_STATE, event('loginStarted', { mode: 'redirect', provider: 'sbc' }));
+    expect(authenticating.status).toBe('authenticating');
+    expect(authStateReducer(authenticating, { type: 'userLoaded' })).toEqual(authenticated);
+  });
+
+  it('moves to error on a failed login, but keeps a signed-in user signed in', () => {
+    const error = new AuthError('unknown', 'Sign in failed');
+    const failed = event('loginFailed', { error, kind: error.kind, diagnosticId: error.diagnosticId });
+
+    expect(authStateReducer({ status: 'authenticating', error: null }, failed)).toEqual({ status: 'error', error });
+    expect(authStateReducer(authenticated, failed)).toEqual({ status: 'authenticated', error });
+  });
+
+  it('returns to authenticated after a renewal, whatever its result', () => {
+    const renewing = authStateReducer(authenticated, event('renewStarted', {}));
+    expect(renewing.status).toBe('renewing');
+    expect(authStateReducer(renewing, event('renewSucceeded', { strategy: 'refreshToken' }))).toEqual(authenticated);
+
+    const error = new AuthError('unknown', 'login_required');
+    expect(authStateReducer(renewing, event('renewFailed', { error, strategies: ['refreshToken'] }))).toEqual({
+      status: 'authenticated',
+      error,
+    });
+  });
+
+  it('does not start renewing without a signed-in user', () => {
+    const anonymous: AuthState = { status: 'anonymous', error: null };
+    expect(authStateReducer(anonymous, event('renewStarted', {}))).toBe(anonymous);
+  });
+
+  it('keeps "expired" when the expired user is removed', () => {
+    const expired = authStateReducer(authenticated, event('tokenExpired', {}));
+    expect(expired.status).toBe('expired');
+    expect(authStateReducer(expired, { type: 'userUnloaded' })).toBe(expired);
+    expect(authStateReducer(authenticated, { type: 'userUnloaded' }).status).toBe('anonymous');
+  });
+
+  it('ignores unrelated events', () => {
+    expect(authStateReducer(authenticated, event('tokenExpiring', {}))).toBe(authenticated);
+  });
+});
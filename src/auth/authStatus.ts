@@ -0,0 +1,164 @@
+/**
+ * ============================================================================
+ * AUTH STATUS STATE MACHINE - authStatus.ts
+ * ============================================================================
+ *
+ * This file defines the explicit authentication status exposed by AuthContext,
+ * so screens can tell "renewing" from "expired" from "sign-in failed" instead
+ * of guessing from user and isLoading. Transitions are driven by AuthService
+ * events (authEvents.ts) and the UserManager userLoaded/userUnloaded events.
+ *
+ * آلة حالة المصادقة - authStatus.ts
+ * يعرّف هذا الملف حالة المصادقة الصريحة التي يكشفها AuthContext، حتى تميز
+ * الشاشات بين "جارٍ التجديد" و"منتهية" و"فشل تسجيل الدخول" بدلاً من التخمين
+ * من user و isLoading. يتم تشغيل الانتقالات بواسطة أحداث AuthService
+ * (authEvents.ts) وأحداث userLoaded/userUnloaded من UserManager.
+ *
+ * ============================================================================
+ * TRANSITIONS:
+ * initializing  → authenticated / anonymous   (stored user loaded on start)
+ * initializing  → error                       (stored user could not be read)
+ * any           → authenticating              (loginStarted)
+ * any           → authenticated               (userLoaded - login, renewal, other tab)
+ * authenticated → renewing                    (renewStarted)
+ * renewing      → authenticated               (renewSucceeded / renewFailed, error kept)
+ * any           → expired                     (tokenExpired)
+ * any           → anonymous                   (userUnloaded, except after expired)
+ * not signed in → error                       (loginFailed - a signed-in user keeps the session)
+ *
+ * الانتقالات:
+ * initializing  → authenticated / anonymous   (تحميل المستخدم المخزن عند البدء)
+ * initializing  → error                       (تعذرت قراءة المستخدم المخزن)
+ * أي حالة       → authenticating              (loginStarted)
+ * أي حالة       → authenticated               (userLoaded - تسجيل دخول، تجديد، تبويب آخر)
+ * authenticated → renewing                    (renewStarted)
+ * renewing      → authenticated               (renewSucceeded / renewFailed، مع الاحتفاظ بالخطأ)
+ * أي حالة       → expired                     (tokenExpired)
+ * أي حالة       → anonymous                   (userUnloaded، إلا بعد expired)
+ * غير مسجل      → error                       (loginFailed - المستخدم المسجل يحتفظ بالجلسة)
+ * ============================================================================
+ */
+
+import { User } from 'oidc-client-ts';
+import { AnyAuthEvent } from './events/authEvents';
+import { AuthError } from './errors/authErrors';
+
+/**
+ * Auth Status
+ * initializing: the stored user is being loaded (app start)
+ * anonymous: nobody is signed in
+ * authenticating: a login is in progress (redirect or popup)
+ * authenticated: signed in with a valid token
+ * renewing: signed in, tokens are being renewed silently
+ * expired: the token ran out before it could be renewed
+ * error: the last login failed (see error)
+ *
+ * حالة المصادقة
+ * initializing: جارٍ تحميل المستخدم المخزن (بدء التطبيق)
+ * anonymous: لا أحد مسجل الدخول
+ * authenticating: تسجيل دخول قيد التقدم (إعادة توجيه أو نافذة منبثقة)
+ * authenticated: مسجل الدخول برمز صالح
+ * renewing: مسجل الدخول، يتم تجديد الرموز بصمت
+ * expired: انتهى الرمز قبل أن يمكن تجديده
+ * error: فشل آخر تسجيل دخول (انظر error)
+ */
+export type AuthStatus =
+  | 'initializing'
+  | 'anonymous'
+  | 'authenticating'
+  | 'authenticated'
+  | 'renewing'
+  | 'expired'
+  | 'error';
+
+/**
+ * Auth State
+ * Current status and the last error (login or renewal), cleared on sign in
+ * The error is an AuthError typed once when it happened - its diagnostic ID never changes
+ *
+ * حالة المصادقة
+ * الحالة الحالية وآخر خطأ (تسجيل الدخول أو التجديد)، يُمسح عند تسجيل الدخول
+ * الخطأ هو AuthError مصنف مرة واحدة عند حدوثه - معرف التشخيص الخاص به لا يتغير أبداً
+ */
+export interface AuthState {
+  status: AuthStatus;
+  error: AuthError | null;
+}
+
+/**
+ * Auth State Action
+ * AuthService events plus the UserManager events AuthContext listens to
+ *
+ * إجراء حالة المصادقة
+ * أحداث AuthService بالإضافة إلى أحداث UserManager التي يستمع إليها AuthContext
+ */
+export type AuthStateAction =
+  | AnyAuthEvent
+  | { type: 'initialized'; user: User | null }
+  | { type: 'initializationFailed'; error: AuthError }
+  | { type: 'userLoaded' }
+  | { type: 'userUnloaded' };
+
+export const INITIAL_AUTH_STATE: AuthState = { status: 'initializing', error: null };
+
+// Statuses with a signed-in user / الحالات التي يوجد فيها مستخدم مسجل
+const SIGNED_IN_STATUSES: AuthStatus[] = ['authenticated', 'renewing'];
+
+/**
+ * Auth State Reducer
+ * Applies one event to the state machine - unrelated events leave it unchanged
+ *
+ * مخفض حالة المصادقة
+ * يطبق حدثاً واحداً على آلة الحالة - الأحداث غير المتعلقة تتركها دون تغيير
+ */
+export const authStateReducer = (state: AuthState, action: AuthStateAction): AuthState => {
+  switch (action.type) {
+    case 'initialized':
+      // Events that arrived while loading win / الأحداث التي وصلت أثناء التحميل لها الأولوية
+      if (state.status !== 'initializing') {
+        return state;
+      }
+      return action.user && !action.user.expired
+        ? { status: 'authenticated', error: null }
+        : { status: 'anonymous', error: null };
+
+    case 'initializationFailed':
+      return { status: 'error', error: action.error };
+
+    case 'loginStarted':
+      return { status: 'authenticating', error: null };
+
+    case 'userLoaded':
+      return { status: 'authenticated', error: null };
+
+    case 'userUnloaded':
+      // Keep "expired" so the UI can say why the user was signed out
+      // الاحتفاظ بـ "expired" حتى تتمكن الواجهة من توضيح سبب تسجيل خروج المستخدم
+      return state.status === 'expired' ? state : { status: 'anonymous', error: null };
+
+    case 'loginFailed':
+      return SIGNED_IN_STATUSES.includes(state.status)
+        ? { ...state, error: action.payload.error }
+        : { status: 'error', error: action.payload.error };
+
+    case 'renewStarted':
+      return state.status === 'authenticated' ? { ...state, status: 'renewing' } : state;
+
+    case 'renewSucceeded':
+      return state.status === 'renewing' ? { status: 'authenticated', error: null } : state;
+
+    case 'renewFailed':
+      // The token is still valid until it expires - tokenExpired moves on to "expired"
+      // الرمز لا يزال صالحاً حتى ينتهي - tokenExpired ينتقل إلى "expired"
+      return {
+        status: state.status === 'renewing' ? 'authenticated' : state.status,
+        error: action.payload.error,
+      };
+
+    case 'tokenExpired':
+      return { status: 'expired', error: state.error };
+
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,38 @@
+import { isAuthorized } from './authorization';
+import { definePolicy } from './policies';
+import { createUser } from './testUtils';
+
+describe('isAuthorized', () => {
+  it('denies a signed-out user', () => {
+    expect(isAuthorized(null, {})).toBe(false);
+  });
+
+  it('allows any signed-in user when nothing is required', () => {
+    expect(isAuthorized(createUser({}), {})).toBe(true);
+  });
+
+  it('requires one of the roles', () => {
+    const auditor = createUser({ role: ['auditor'] });
+    expect(isAuthorized(auditor, { roles: ['admin', 'auditor'] })).toBe(true);
+    expect(isAuthorized(auditor, { roles: ['admin'] })).toBe(false);
+  });
+
+  it('requires every claim, with one of its allowed values', () => {
+    const user = createUser({ tenant: 'sbc', department: 'finance' });
+    expect(isAuthorized(user, { claims: { tenant: 'sbc', department: ['finance', 'hr'] } })).toBe(true);
+    expect(isAuthorized(user, { claims: { tenant: 'sbc', department: 'hr' } })).toBe(false);
+    expect(isAuthorized(user, { claims: { region: 'riyadh' } })).toBe(false);
+  });
+
+  it('requires the policy to pass, on top of roles and claims', () => {
+    const admin = createUser({ role: 'admin', email_verified: false });
+    expect(isAuthorized(admin, { roles: ['admin'], policy: (user) => user.email_verified === true })).toBe(false);
+    expect(isAuthorized(admin, { roles: ['admin'], policy: (user) => user.sub === 'user-1' })).toBe(true);
+  });
+
+  it('accepts a named policy', () => {
+    const policy = definePolicy('authorization-test.admin', (user) => user.roles.includes('admin'));
+    expect(isAuthorized(createUser({ role: 'admin' }), { policy })).toBe(true);
+    expect(isAuthorized(createUser({ role: 'auditor' }), { policy })).toBe(false);
+  });
+});
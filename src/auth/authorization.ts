@@ -0,0 +1,95 @@
+/**
+ * ============================================================================
+ * AUTHORIZATION HELPERS - authorization.ts
+ * ============================================================================
+ *
+ * This file contains the rules used to decide whether an authenticated user
+ * is allowed to see a piece of the app. Checks are evaluated against the
+ * claims in user.profile (roles, custom claims, or a policy from policies.ts).
+ *
+ * مساعدات التفويض - authorization.ts
+ * يحتوي هذا الملف على القواعد المستخدمة لتحديد ما إذا كان المستخدم المصادق عليه
+ * مسموحاً له برؤية جزء من التطبيق. يتم تقييم الفحوصات مقابل المطالبات في user.profile
+ * (الأدوار، المطالبات المخصصة، أو سياسة من policies.ts).
+ *
+ * ============================================================================
+ */
+
+import { IdTokenClaims, User } from 'oidc-client-ts';
+import { getUserRoles, toClaimValues } from './claims';
+import { authorize, Policy } from './policies';
+
+/**
+ * Claim Requirement
+ * Maps a claim name to the value (or any of the values) it must have
+ *
+ * متطلب المطالبة
+ * يربط اسم المطالبة بالقيمة (أو أي من القيم) التي يجب أن تحملها
+ */
+export type ClaimRequirements = Record<string, string | string[]>;
+
+/**
+ * Authorization Requirements
+ * roles: user must have at least one of these roles
+ * claims: user must satisfy every listed claim
+ * policy: named policy (definePolicy) or inline predicate that must return true
+ *
+ * متطلبات التفويض
+ * roles: يجب أن يملك المستخدم دوراً واحداً على الأقل من هذه الأدوار
+ * claims: يجب أن يستوفي المستخدم كل مطالبة مذكورة
+ * policy: سياسة مسماة (definePolicy) أو دالة تحقق مضمنة يجب أن تعيد true
+ */
+export interface AuthorizationRequirements {
+  roles?: string[];
+  claims?: ClaimRequirements;
+  policy?: string | Policy;
+}
+
+/**
+ * Has Required Claims
+ * Checks that every required claim is present with one of the allowed values
+ *
+ * التحقق من المطالبات المطلوبة
+ * يتحقق من وجود كل مطالبة مطلوبة بإحدى القيم المسموح بها
+ */
+const hasRequiredClaims = (profile: IdTokenClaims, claims: ClaimRequirements): boolean => {
+  return Object.entries(claims).every(([claim, allowed]) => {
+    const values = toClaimValues(profile[claim]);
+    return toClaimValues(allowed).some((value) => values.includes(value));
+  });
+};
+
+/**
+ * Is Authorized Function
+ * Evaluates the requirements against the user profile
+ * Returns true when no requirements are given
+ *
+ * وظيفة التحقق من التفويض
+ * يقيّم المتطلبات مقابل ملف المستخدم
+ * يعيد true عندما لا توجد متطلبات
+ */
+export const isAuthorized = (user: User | null, requirements: AuthorizationRequirements): boolean => {
+  if (!user) {
+    return false;
+  }
+
+  const { roles, claims, policy } = requirements;
+  const profile = user.profile;
+
+  if (roles && roles.length > 0) {
+    const userRoles = getUserRoles(profile);
+    if (!roles.some((role) => userRoles.includes(role))) {
+      return false;
+    }
+  }
+
+  if (claims && !hasRequiredClaims(profile, claims)) {
+    return false;
+  }
+
+  if (policy && !authorize(user, policy)) {
+    return false;
+  }
+
+  return true;
+};
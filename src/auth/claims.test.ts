@@ -0,0 +1,23 @@
+import { getUserRoles, toUserClaims } from './claims';
+import { createProfile, createUser } from './testUtils';
+
+describe('getUserRoles', () => {
+  it('reads roles from both the role and roles claims, once each', () => {
+    expect(getUserRoles(createProfile({ role: 'admin', roles: ['admin', 'auditor'] }))).toEqual(['admin', 'auditor']);
+  });
+
+  it('returns no roles when neither claim is present', () => {
+    expect(getUserRoles(createProfile({}))).toEqual([]);
+  });
+});
+
+describe('toUserClaims', () => {
+  it('is null when signed out', () => {
+    expect(toUserClaims(null)).toBeNull();
+  });
+
+  it('keeps the profile claims and adds the roles', () => {
+    const user = createUser({ role: 'admin', tenant: 'sbc' });
+    expect(toUserClaims(user)).toMatchObject({ sub: 'user-1', tenant: 'sbc', roles: ['admin'] });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * ============================================================================
+ * TYPED USER CLAIMS - claims.ts
+ * ============================================================================
+ *
+ * This file gives components a typed view of the signed-in user's claims
+ * instead of reaching into user.profile. Roles are normalised to an array -
+ * Identity Server sends a single role as a string and several as an array.
+ *
+ * Example:
+ *   interface CalcClaims extends UserClaims { department?: string }
+ *   const user = useUser<CalcClaims>();
+ *   user?.roles.includes('admin');
+ *
+ * مطالبات المستخدم المكتوبة - claims.ts
+ * يعطي هذا الملف المكونات عرضاً مكتوباً لمطالبات المستخدم المسجل بدلاً من
+ * الوصول إلى user.profile مباشرة. يتم توحيد الأدوار إلى مصفوفة - خادم الهوية
+ * يرسل دوراً واحداً كنص وعدة أدوار كمصفوفة.
+ *
+ * ============================================================================
+ */
+
+import { useMemo } from 'react';
+import { IdTokenClaims, User } from 'oidc-client-ts';
+import { useAuth } from './contexts/AuthContext';
+
+/**
+ * To Claim Values
+ * Claims can arrive as a single value or an array - normalize to an array of strings
+ *
+ * التحويل إلى قيم المطالبة
+ * قد تصل المطالبات كقيمة واحدة أو كمصفوفة - توحيدها إلى مصفوفة من النصوص
+ */
+export const toClaimValues = (value: unknown): string[] => {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).map(String);
+};
+
+/**
+ * Get User Roles
+ * Reads roles from the 'role' and 'roles' claims (Identity Server uses 'role')
+ *
+ * الحصول على أدوار المستخدم
+ * يقرأ الأدوار من مطالبات 'role' و 'roles' (خادم الهوية يستخدم 'role')
+ */
+export const getUserRoles = (profile: IdTokenClaims): string[] => {
+  return Array.from(new Set([...toClaimValues(profile.role), ...toClaimValues(profile.roles)]));
+};
+
+/**
+ * User Claims
+ * id_token / userinfo claims with roles always an array (from 'role' and 'roles')
+ * Extend it to type the app-specific claims
+ *
+ * مطالبات المستخدم
+ * مطالبات id_token / userinfo مع الأدوار دائماً مصفوفة (من 'role' و 'roles')
+ * قم بتوسيعها لكتابة أنواع المطالبات الخاصة بالتطبيق
+ */
+export interface UserClaims extends IdTokenClaims {
+  roles: string[];
+}
+
+/**
+ * To User Claims
+ * Builds the typed claims of a user (null when signed out)
+ *
+ * التحويل إلى مطالبات المستخدم
+ * ينشئ المطالبات المكتوبة للمستخدم (null عند تسجيل الخروج)
+ */
+export const toUserClaims = <TClaims extends UserClaims = UserClaims>(user: User | null): TClaims | null => {
+  if (!user) {
+    return null;
+  }
+  return { ...user.profile, roles: getUserRoles(user.profile) } as TClaims;
+};
+
+/**
+ * useUser Hook
+ * Typed claims of the signed-in user - recomputed only when the user changes
+ *
+ * Hook useUser
+ * المطالبات المكتوبة للمستخدم المسجل - يُعاد حسابها فقط عندما يتغير المستخدم
+ */
+export const useUser = <TClaims extends UserClaims = UserClaims>(): TClaims | null => {
+  const { user } = useAuth();
+  return useMemo(() => toUserClaims<TClaims>(user), [user]);
+};
@@ -1,2 +1,13 @@
-export const BASE_API_URL = 'https://CalcAPI.sbcsdaia.com/api/app';
-//export const BASE_API_URL = 'https://localhost:56583/api/app';
\ No newline at end of file
+import { ApiResource, getAppConfig, RetryPolicy } from './appConfig';
+
+// Read from the runtime config when called, so importing this file does not need
+// the config to be loaded yet (see appConfig.ts)
+
+// Calc API base URL - loaded at runtime from config.json / env
+export const getBaseApiUrl = (): string => getAppConfig().apiBaseUrl;
+
+// APIs with their scopes - Calc API first
+export const getApiResources = (): ApiResource[] => getAppConfig().apis;
+
+// Retry policy of the API clients
+export const getRetryPolicy = (): RetryPolicy => getAppConfig().retry;
@@ -0,0 +1,97 @@
+import { ConfigError, getAppConfig, isSharedTokenStorage, loadAppConfig } from './appConfig';
+
+const production = {
+  identityServerUrl: 'https://id.example.test/',
+  clientId: ' Calc_App ',
+  apiBaseUrl: 'https://api.example.test/api/app',
+};
+
+const mockConfigFile = (file: unknown, init: { ok?: boolean; status?: number } = {}) => {
+  global.fetch = jest.fn().mockResolvedValue({
+    ok: init.ok ?? true,
+    status: init.status ?? 200,
+    json: () => Promise.resolve(file),
+  });
+};
+
+const loadEnvironment = (settings: Record<string, unknown>) => {
+  mockConfigFile({ environment: 'production', environments: { production: { ...production, ...settings } } });
+  return loadAppConfig();
+};
+
+describe('appConfig', () => {
+  it('fails clearly when the config is read before it was loaded', () => {
+    expect(() => getAppConfig()).toThrow(ConfigError);
+  });
+
+  it('loads the selected environment and fills in the defaults', async () => {
+    const config = await loadEnvironment({});
+
+    expect(config).toMatchObject({
+      environment: 'production',
+      identityServerUrl: 'https://id.example.test',
+      clientId: 'Calc_App',
+      providers: [{ id: 'sbc', displayName: 'SBC', identityServerUrl: 'https://id.example.test', clientId: 'Calc_App' }],
+      apis: [{ id: 'calc', baseUrl: 'https://api.example.test/api/app', scopes: ['CalcApi'] }],
+      idle: { timeoutMinutes: 15, warningSeconds: 60, action: 'logout' },
+      tokenStorage: 'localStorage',
+      sessionChangeAction: 'prompt',
+      audit: null,
+      dpop: false,
+      retry: { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 10000, timeoutMs: 30000 },
+    });
+    expect(getAppConfig()).toBe(config);
+  });
+
+  it('adds partner providers and other APIs after the primary ones', async () => {
+    const config = await loadEnvironment({
+      providers: [{ id: 'partner', displayName: 'Partner', identityServerUrl: 'https://partner.example.test', clientId: 'calc' }],
+      apis: [{ id: 'reports', baseUrl: 'https://reports.example.test/', scopes: [' ReportsApi '] }],
+    });
+
+    expect(config.providers.map((provider) => provider.id)).toEqual(['sbc', 'partner']);
+    expect(config.apis[1]).toEqual({ id: 'reports', baseUrl: 'https://reports.example.test', scopes: ['ReportsApi'] });
+  });
+
+  it.each([
+    ['a missing clientId', { clientId: ' ' }, /"clientId"/],
+    ['a URL that is not http(s)', { identityServerUrl: 'ftp://id.example.test' }, /http\(s\) URL/],
+    ['an invalid URL', { apiBaseUrl: 'not a url' }, /not a valid URL/],
+    ['a duplicate provider id', { providers: [{ id: 'sbc', displayName: 'SBC 2', identityServerUrl: 'https://id.example.test', clientId: 'x' }] }, /Duplicate identity provider/],
+    ['a partner without a clientId', { providers: [{ id: 'partner', displayName: 'Partner', identityServerUrl: 'https://partner.example.test' }] }, /"providers\[0\]\.clientId" of identity provider "partner"/],
+    ['a partner with a non-string clientId', { providers: [{ id: 'partner', displayName: 'Partner', identityServerUrl: 'https://partner.example.test', clientId: 42 }] }, /identity provider "partner" must be a non-empty string/],
+    ['an API without scopes', { apis: [{ id: 'reports', baseUrl: 'https://reports.example.test', scopes: [] }] }, /scopes/],
+    ['an idle warning longer than the timeout', { idle: { timeoutMinutes: 1, warningSeconds: 60 } }, /warningSeconds/],
+    ['an unknown renew strategy', { renewStrategies: ['cookie'] }, /Unknown renew strategy/],
+    ['duplicate renew strategies', { renewStrategies: ['iframe', 'iframe'] }, /duplicates/],
+    ['an unknown token storage', { tokenStorage: 'cookie' }, /Unknown token storage/],
+    ['an unknown session change action', { sessionChangeAction: 'ignore' }, /Unknown session change action/],
+    ['a non-boolean dpop', { dpop: 'yes' }, /"dpop"/],
+    ['a maxDelayMs below baseDelayMs', { retry: { baseDelayMs: 1000, maxDelayMs: 500 } }, /maxDelayMs/],
+    ['a timeout that is not positive', { retry: { timeoutMs: 0 } }, /timeoutMs/],
+  ])('rejects %s', async (_, settings, message) => {
+    await expect(loadEnvironment(settings)).rejects.toThrow(message);
+  });
+
+  it('rejects an unknown or missing environment', async () => {
+    mockConfigFile({ environment: 'qa', environments: {} });
+    await expect(loadAppConfig()).rejects.toThrow(/Unknown environment "qa"/);
+
+    mockConfigFile({ environments: {} });
+    await expect(loadAppConfig()).rejects.toThrow(/No environment selected/);
+  });
+
+  it('reports a config file that could not be loaded', async () => {
+    mockConfigFile({}, { ok: false, status: 404 });
+    await expect(loadAppConfig()).rejects.toThrow('Could not load /config.json: HTTP 404');
+  });
+});
+
+describe('isSharedTokenStorage', () => {
+  it('is true only for stores every tab can read', () => {
+    expect(isSharedTokenStorage('localStorage')).toBe(true);
+    expect(isSharedTokenStorage('encryptedIndexedDb')).toBe(true);
+    expect(isSharedTokenStorage('sessionStorage')).toBe(false);
+    expect(isSharedTokenStorage('memory')).toBe(false);
+  });
+});
@@ -0,0 +1,643 @@
+/**
+ * ============================================================================
+ * RUNTIME APP CONFIGURATION - appConfig.ts
+ * ============================================================================
+ *
+ * This file loads the environment-specific settings (Identity Server URL,
+ * client ID, API base URL) at runtime, before AuthService and apiClient are built.
+ * The same build can then be promoted across environments by changing config.json.
+ *
+ * تكوين التطبيق وقت التشغيل - appConfig.ts
+ * يحمل هذا الملف الإعدادات الخاصة بالبيئة (عنوان خادم الهوية، معرف العميل،
+ * عنوان API الأساسي) وقت التشغيل، قبل إنشاء AuthService و apiClient.
+ * يمكن بعد ذلك ترقية نفس البناء عبر البيئات عن طريق تغيير config.json.
+ *
+ * ============================================================================
+ * SOURCES (later overrides earlier):
+ * 1. /config.json → "environment" + "environments": { mock, local, staging, production }
+ * 2. Environment variables (REACT_APP_*) → override single values
+ *    - REACT_APP_ENVIRONMENT
+ *    - REACT_APP_IDENTITY_SERVER_URL
+ *    - REACT_APP_CLIENT_ID
+ *    - REACT_APP_API_BASE_URL
+ *
+ * المصادر (اللاحق يتجاوز السابق):
+ * 1. /config.json → "environment" + "environments": { mock, local, staging, production }
+ * 2. متغيرات البيئة (REACT_APP_*) → تتجاوز قيماً مفردة
+ * ============================================================================
+ */
+
+export const ENVIRONMENT_NAMES = ['mock', 'local', 'staging', 'production'] as const;
+
+export type EnvironmentName = typeof ENVIRONMENT_NAMES[number];
+
+/**
+ * Identity Provider
+ * id: used in the callback URL (/auth/callback/:id) and to remember the last provider
+ * displayName: shown on the Login page ("Sign In By ...")
+ * scope: requested scopes - defaults to the SBC scopes
+ * The first provider is always SBC, built from identityServerUrl / clientId;
+ * partner providers are listed under "providers" in config.json
+ *
+ * موفر الهوية
+ * id: يُستخدم في عنوان URL للاستدعاء (/auth/callback/:id) ولتذكر آخر موفر
+ * displayName: يُعرض في صفحة تسجيل الدخول ("تسجيل الدخول بواسطة ...")
+ * scope: النطاقات المطلوبة - الافتراضي هو نطاقات SBC
+ * الموفر الأول هو SBC دائماً، مبني من identityServerUrl / clientId؛
+ * يتم سرد موفري الشركاء تحت "providers" في config.json
+ */
+export interface IdentityProvider {
+  id: string;
+  displayName: string;
+  identityServerUrl: string;
+  clientId: string;
+  scope?: string;
+}
+
+export const PRIMARY_PROVIDER_ID = 'sbc';
+
+const ID_PATTERN = /^[a-z0-9-]+$/;
+
+/**
+ * API Resource
+ * id: name used with getApiClient(id)
+ * baseUrl: requests to this URL get an access token for the API's scopes only
+ * scopes: API scopes - consent is requested the first time they are needed
+ * The first API is always the Calc API, built from apiBaseUrl;
+ * other APIs are listed under "apis" in config.json
+ *
+ * مورد API
+ * id: الاسم المستخدم مع getApiClient(id)
+ * baseUrl: الطلبات إلى هذا العنوان تحصل على رمز وصول لنطاقات الـ API فقط
+ * scopes: نطاقات الـ API - يتم طلب الموافقة أول مرة تكون مطلوبة فيها
+ * أول API هو دائماً Calc API، مبني من apiBaseUrl؛
+ * يتم سرد واجهات API الأخرى تحت "apis" في config.json
+ */
+export interface ApiResource {
+  id: string;
+  baseUrl: string;
+  scopes: string[];
+}
+
+export const PRIMARY_API_ID = 'calc';
+
+/**
+ * Idle Policy
+ * timeoutMinutes: sign out after this many minutes without interaction (0 = disabled)
+ * warningSeconds: show the warning this many seconds before the cutoff
+ * action: 'logout' = Identity Server logout, 'removeUser' = clear local tokens only
+ *
+ * سياسة الخمول
+ * timeoutMinutes: تسجيل الخروج بعد هذا العدد من الدقائق دون تفاعل (0 = معطل)
+ * warningSeconds: عرض التحذير قبل هذا العدد من الثواني من الانقطاع
+ * action: 'logout' = تسجيل الخروج من خادم الهوية، 'removeUser' = مسح الرموز المحلية فقط
+ */
+export interface IdlePolicy {
+  timeoutMinutes: number;
+  warningSeconds: number;
+  action: 'logout' | 'removeUser';
+}
+
+const DEFAULT_IDLE_POLICY: IdlePolicy = {
+  timeoutMinutes: 15,
+  warningSeconds: 60,
+  action: 'logout',
+};
+
+/**
+ * Renew Strategy
+ * refreshToken: exchange the refresh token (offline_access) at the token endpoint
+ * iframe: hidden-iframe silent renew via /silent-renew (needs third-party cookies)
+ *
+ * استراتيجية التجديد
+ * refreshToken: استبدال رمز التحديث (offline_access) في نقطة نهاية الرمز المميز
+ * iframe: التجديد الصامت عبر iframe مخفي من خلال /silent-renew (يحتاج ملفات تعريف ارتباط الطرف الثالث)
+ */
+export const RENEW_STRATEGIES = ['refreshToken', 'iframe'] as const;
+
+export type RenewStrategy = typeof RENEW_STRATEGIES[number];
+
+const DEFAULT_RENEW_STRATEGIES: RenewStrategy[] = ['iframe'];
+
+/**
+ * Token Storage Backend
+ * Where UserManager keeps the user and tokens (see storage/tokenStorage.ts)
+ *
+ * الواجهة الخلفية لتخزين الرموز المميزة
+ * المكان الذي يحفظ فيه UserManager المستخدم والرموز (انظر storage/tokenStorage.ts)
+ */
+export const TOKEN_STORAGE_BACKENDS = ['memory', 'sessionStorage', 'localStorage', 'encryptedIndexedDb'] as const;
+
+export type TokenStorageBackend = typeof TOKEN_STORAGE_BACKENDS[number];
+
+const DEFAULT_TOKEN_STORAGE: TokenStorageBackend = 'localStorage';
+
+/**
+ * Is Shared Token Storage
+ * True when every tab reads the same store, so logins and renewals can be synced
+ * between tabs. With memory/sessionStorage each tab keeps its own session and only
+ * sign-outs are synced (see sessionSync.ts)
+ *
+ * هل تخزين الرموز مشترك
+ * صحيح عندما تقرأ جميع التبويبات نفس المخزن، فيمكن مزامنة تسجيل الدخول والتجديد
+ * بين التبويبات. مع memory/sessionStorage يحتفظ كل تبويب بجلسته الخاصة ولا تتم
+ * مزامنة سوى تسجيل الخروج (انظر sessionSync.ts)
+ */
+export const isSharedTokenStorage = (backend: TokenStorageBackend): boolean =>
+  backend === 'localStorage' || backend === 'encryptedIndexedDb';
+
+/**
+ * Session Change Action
+ * What to do when Identity Server reports (monitorSession) that the user signed out
+ * there or that the session changed:
+ * logout: clear local tokens right away
+ * revalidate: silently re-check the session (prompt=none iframe), sign out only if it is gone -
+ *             needs third-party cookies, otherwise every check signs the user out
+ * prompt: ask the user (SessionChangedDialog) - the default
+ *
+ * إجراء تغيير الجلسة
+ * ما يجب فعله عندما يبلغ خادم الهوية (monitorSession) أن المستخدم سجل خروجه
+ * هناك أو أن الجلسة تغيرت:
+ * logout: مسح الرموز المحلية فوراً
+ * revalidate: إعادة فحص الجلسة بصمت (iframe مع prompt=none)، وتسجيل الخروج فقط إذا انتهت -
+ *             يحتاج إلى ملفات تعريف الارتباط للطرف الثالث، وإلا فإن كل فحص يسجل خروج المستخدم
+ * prompt: سؤال المستخدم (SessionChangedDialog) - الافتراضي
+ */
+export const SESSION_CHANGE_ACTIONS = ['logout', 'revalidate', 'prompt'] as const;
+
+export type SessionChangeAction = typeof SESSION_CHANGE_ACTIONS[number];
+
+const DEFAULT_SESSION_CHANGE_ACTION: SessionChangeAction = 'prompt';
+
+/**
+ * Audit Settings
+ * endpoint: URL that receives POST { records: [...] } with auth audit records
+ * batchSize: send as soon as this many records are queued
+ * flushIntervalSeconds: send whatever is queued at this interval
+ *
+ * إعدادات التدقيق
+ * endpoint: عنوان URL يستقبل POST { records: [...] } مع سجلات تدقيق المصادقة
+ * batchSize: الإرسال بمجرد وجود هذا العدد من السجلات في قائمة الانتظار
+ * flushIntervalSeconds: إرسال ما هو موجود في قائمة الانتظار على هذه الفترة
+ */
+export interface AuditSettings {
+  endpoint: string;
+  batchSize: number;
+  flushIntervalSeconds: number;
+}
+
+const DEFAULT_AUDIT_BATCH_SIZE = 20;
+const DEFAULT_AUDIT_FLUSH_INTERVAL_SECONDS = 30;
+
+/**
+ * Retry Policy
+ * maxAttempts: attempts per request including the first one (1 = no retries)
+ * baseDelayMs: delay before the first retry, doubled for each next one (with jitter)
+ * maxDelayMs: longest wait before a retry - a longer Retry-After is not waited for
+ * timeoutMs: time one attempt may take before it fails as a timeout (and is retried)
+ *
+ * سياسة إعادة المحاولة
+ * maxAttempts: عدد المحاولات لكل طلب بما فيها الأولى (1 = بدون إعادة)
+ * baseDelayMs: التأخير قبل إعادة المحاولة الأولى، يتضاعف لكل محاولة تالية (مع عشوائية)
+ * maxDelayMs: أطول انتظار قبل إعادة المحاولة - لا يتم انتظار Retry-After أطول
+ * timeoutMs: الوقت الذي قد تستغرقه محاولة واحدة قبل أن تفشل كانتهاء مهلة (وتُعاد)
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  timeoutMs: 30000,
+};
+
+/**
+ * App Configuration
+ * Validated settings used to build AuthService and apiClient
+ *
+ * تكوين التطبيق
+ * الإعدادات المتحقق منها المستخدمة لبناء AuthService و apiClient
+ */
+export interface AppConfig {
+  environment: EnvironmentName;   // Active environment / البيئة النشطة
+  identityServerUrl: string;      // Identity Server URL / عنوان URL لخادم الهوية
+  clientId: string;               // Client ID registered on Identity Server / معرف العميل
+  apiBaseUrl: string;             // Calc API base URL / عنوان URL الأساسي لـ Calc API
+  providers: IdentityProvider[];  // SBC first, then partner providers / SBC أولاً، ثم موفرو الشركاء
+  apis: ApiResource[];            // Calc API first, then other APIs / Calc API أولاً، ثم واجهات API الأخرى
+  idle: IdlePolicy;               // Inactivity timeout policy / سياسة مهلة عدم النشاط
+  renewStrategies: RenewStrategy[]; // Token renewal strategies, tried in order / استراتيجيات التجديد بالترتيب
+  tokenStorage: TokenStorageBackend; // Token storage backend / الواجهة الخلفية لتخزين الرموز
+  sessionChangeAction: SessionChangeAction; // Reaction to Identity Server session changes / الاستجابة لتغييرات جلسة خادم الهوية
+  audit: AuditSettings | null;    // Audit trail endpoint, null = disabled / نقطة نهاية سجل التدقيق، null = معطل
+  dpop: boolean;                  // DPoP-bound tokens (sender-constrained) / رموز مرتبطة بـ DPoP (مقيدة بالمرسل)
+  retry: RetryPolicy;             // Retries of transient API failures / إعادة محاولة أعطال API المؤقتة
+}
+
+type EnvironmentSettings = Partial<Omit<AppConfig, 'environment' | 'providers' | 'apis' | 'idle' | 'audit' | 'retry'>> & {
+  providers?: Partial<IdentityProvider>[];
+  apis?: Partial<ApiResource>[];
+  idle?: Partial<IdlePolicy>;
+  audit?: Partial<AuditSettings>;
+  retry?: Partial<RetryPolicy>;
+};
+
+/**
+ * Shape of public/config.json
+ * شكل ملف public/config.json
+ */
+interface ConfigFile {
+  environment?: string;
+  environments?: Partial<Record<string, EnvironmentSettings>>;
+}
+
+/**
+ * Config Error
+ * Thrown when config.json cannot be loaded or contains invalid values
+ *
+ * خطأ التكوين
+ * يتم رميه عندما يتعذر تحميل config.json أو يحتوي على قيم غير صالحة
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+const CONFIG_URL = '/config.json';
+
+let currentConfig: AppConfig | null = null;
+
+/**
+ * Fetch Config File
+ * Loads config.json without caching so a redeployed file is picked up immediately
+ *
+ * جلب ملف التكوين
+ * يحمل config.json بدون تخزين مؤقت حتى يتم التقاط الملف المعاد نشره فوراً
+ */
+const fetchConfigFile = async (): Promise<ConfigFile> => {
+  let response: Response;
+  try {
+    response = await fetch(CONFIG_URL, { cache: 'no-store' });
+  } catch (error) {
+    throw new ConfigError(`Could not load ${CONFIG_URL}: ${(error as Error).message}`);
+  }
+
+  if (!response.ok) {
+    throw new ConfigError(`Could not load ${CONFIG_URL}: HTTP ${response.status}`);
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new ConfigError(`${CONFIG_URL} is not valid JSON`);
+  }
+};
+
+/**
+ * Validate URL
+ * Requires an absolute http(s) URL and strips the trailing slash
+ *
+ * التحقق من عنوان URL
+ * يتطلب عنوان URL مطلقاً http(s) ويزيل الشرطة المائلة الأخيرة
+ */
+const validateUrl = (name: string, value: string | undefined): string => {
+  if (!value) {
+    throw new ConfigError(`Missing required setting "${name}"`);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ConfigError(`Setting "${name}" is not a valid URL: "${value}"`);
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new ConfigError(`Setting "${name}" must be an http(s) URL: "${value}"`);
+  }
+
+  return value.replace(/\/+$/, '');
+};
+
+/**
+ * Validate Providers
+ * Builds the SBC provider and validates the partner providers (unique URL-safe ids)
+ *
+ * التحقق من الموفرين
+ * ينشئ موفر SBC ويتحقق من موفري الشركاء (معرفات فريدة آمنة لعناوين URL)
+ */
+const validateProviders = (primary: IdentityProvider, partners: Partial<IdentityProvider>[] = []): IdentityProvider[] => {
+  if (!Array.isArray(partners)) {
+    throw new ConfigError('Setting "providers" must be an array');
+  }
+
+  const providers = [primary];
+  partners.forEach((partner, index) => {
+    const name = `providers[${index}]`;
+    if (!partner.id || !ID_PATTERN.test(partner.id)) {
+      throw new ConfigError(`Setting "${name}.id" must contain only lowercase letters, digits and "-": "${partner.id}"`);
+    }
+    if (providers.some((provider) => provider.id === partner.id)) {
+      throw new ConfigError(`Duplicate identity provider id "${partner.id}"`);
+    }
+    if (!partner.displayName) {
+      throw new ConfigError(`Setting "${name}.displayName" is required`);
+    }
+    if (typeof partner.clientId !== 'string' || !partner.clientId.trim()) {
+      throw new ConfigError(`Setting "${name}.clientId" of identity provider "${partner.id}" must be a non-empty string`);
+    }
+
+    providers.push({
+      id: partner.id,
+      displayName: partner.displayName,
+      identityServerUrl: validateUrl(`${name}.identityServerUrl`, partner.identityServerUrl),
+      clientId: partner.clientId.trim(),
+      scope: partner.scope,
+    });
+  });
+
+  return providers;
+};
+
+/**
+ * Validate APIs
+ * Builds the Calc API resource and validates the other APIs (unique ids, at least one scope)
+ *
+ * التحقق من واجهات API
+ * ينشئ مورد Calc API ويتحقق من واجهات API الأخرى (معرفات فريدة، نطاق واحد على الأقل)
+ */
+const validateApis = (primary: ApiResource, others: Partial<ApiResource>[] = []): ApiResource[] => {
+  if (!Array.isArray(others)) {
+    throw new ConfigError('Setting "apis" must be an array');
+  }
+
+  const apis = [primary];
+  others.forEach((api, index) => {
+    const name = `apis[${index}]`;
+    if (!api.id || !ID_PATTERN.test(api.id)) {
+      throw new ConfigError(`Setting "${name}.id" must contain only lowercase letters, digits and "-": "${api.id}"`);
+    }
+    if (apis.some((existing) => existing.id === api.id)) {
+      throw new ConfigError(`Duplicate API id "${api.id}"`);
+    }
+    if (!Array.isArray(api.scopes) || api.scopes.length === 0 || api.scopes.some((scope) => typeof scope !== 'string' || !scope.trim())) {
+      throw new ConfigError(`Setting "${name}.scopes" must be a non-empty list of scopes`);
+    }
+
+    apis.push({
+      id: api.id,
+      baseUrl: validateUrl(`${name}.baseUrl`, api.baseUrl),
+      scopes: api.scopes.map((scope) => scope.trim()),
+    });
+  });
+
+  return apis;
+};
+
+/**
+ * Validate Idle Policy
+ * Fills in defaults and checks the numbers and action
+ *
+ * التحقق من سياسة الخمول
+ * يملأ القيم الافتراضية ويتحقق من الأرقام والإجراء
+ */
+const validateIdlePolicy = (idle: Partial<IdlePolicy> = {}): IdlePolicy => {
+  const policy: IdlePolicy = { ...DEFAULT_IDLE_POLICY, ...idle };
+
+  if (typeof policy.timeoutMinutes !== 'number' || policy.timeoutMinutes < 0) {
+    throw new ConfigError(`Setting "idle.timeoutMinutes" must be a number >= 0: "${policy.timeoutMinutes}"`);
+  }
+  if (typeof policy.warningSeconds !== 'number' || policy.warningSeconds < 0) {
+    throw new ConfigError(`Setting "idle.warningSeconds" must be a number >= 0: "${policy.warningSeconds}"`);
+  }
+  if (policy.timeoutMinutes > 0 && policy.warningSeconds >= policy.timeoutMinutes * 60) {
+    throw new ConfigError('Setting "idle.warningSeconds" must be shorter than "idle.timeoutMinutes"');
+  }
+  if (policy.action !== 'logout' && policy.action !== 'removeUser') {
+    throw new ConfigError(`Setting "idle.action" must be "logout" or "removeUser": "${policy.action}"`);
+  }
+
+  return policy;
+};
+
+/**
+ * Validate Renew Strategies
+ * Requires a non-empty list of known strategies without duplicates
+ *
+ * التحقق من استراتيجيات التجديد
+ * يتطلب قائمة غير فارغة من الاستراتيجيات المعروفة بدون تكرار
+ */
+const validateRenewStrategies = (strategies: RenewStrategy[] = DEFAULT_RENEW_STRATEGIES): RenewStrategy[] => {
+  if (!Array.isArray(strategies) || strategies.length === 0) {
+    throw new ConfigError('Setting "renewStrategies" must be a non-empty array');
+  }
+
+  strategies.forEach((strategy) => {
+    if (!(RENEW_STRATEGIES as readonly string[]).includes(strategy)) {
+      throw new ConfigError(`Unknown renew strategy "${strategy}" - expected one of: ${RENEW_STRATEGIES.join(', ')}`);
+    }
+  });
+  if (new Set(strategies).size !== strategies.length) {
+    throw new ConfigError('Setting "renewStrategies" must not contain duplicates');
+  }
+
+  return strategies;
+};
+
+/**
+ * Validate Token Storage
+ * Requires one of the known backends
+ *
+ * التحقق من تخزين الرموز المميزة
+ * يتطلب إحدى الواجهات الخلفية المعروفة
+ */
+const validateTokenStorage = (backend: string = DEFAULT_TOKEN_STORAGE): TokenStorageBackend => {
+  if (!(TOKEN_STORAGE_BACKENDS as readonly string[]).includes(backend)) {
+    throw new ConfigError(`Unknown token storage "${backend}" - expected one of: ${TOKEN_STORAGE_BACKENDS.join(', ')}`);
+  }
+  return backend as TokenStorageBackend;
+};
+
+/**
+ * Validate Session Change Action
+ * Requires one of the known actions
+ *
+ * التحقق من إجراء تغيير الجلسة
+ * يتطلب أحد الإجراءات المعروفة
+ */
+const validateSessionChangeAction = (action: string = DEFAULT_SESSION_CHANGE_ACTION): SessionChangeAction => {
+  if (!(SESSION_CHANGE_ACTIONS as readonly string[]).includes(action)) {
+    throw new ConfigError(`Unknown session change action "${action}" - expected one of: ${SESSION_CHANGE_ACTIONS.join(', ')}`);
+  }
+  return action as SessionChangeAction;
+};
+
+/**
+ * Validate Audit Settings
+ * Audit is optional - without an endpoint it is disabled
+ *
+ * التحقق من إعدادات التدقيق
+ * التدقيق اختياري - بدون نقطة نهاية يكون معطلاً
+ */
+const validateAuditSettings = (audit?: Partial<AuditSettings>): AuditSettings | null => {
+  if (!audit || !audit.endpoint) {
+    return null;
+  }
+
+  const { batchSize = DEFAULT_AUDIT_BATCH_SIZE, flushIntervalSeconds = DEFAULT_AUDIT_FLUSH_INTERVAL_SECONDS } = audit;
+  if (typeof batchSize !== 'number' || batchSize < 1) {
+    throw new ConfigError(`Setting "audit.batchSize" must be a number >= 1: "${batchSize}"`);
+  }
+  if (typeof flushIntervalSeconds !== 'number' || flushIntervalSeconds <= 0) {
+    throw new ConfigError(`Setting "audit.flushIntervalSeconds" must be a number > 0: "${flushIntervalSeconds}"`);
+  }
+
+  return {
+    endpoint: validateUrl('audit.endpoint', audit.endpoint),
+    batchSize,
+    flushIntervalSeconds,
+  };
+};
+
+/**
+ * Validate DPoP
+ * Off by default - only enable it when Identity Server and the APIs support DPoP
+ *
+ * التحقق من DPoP
+ * معطل افتراضياً - فعّله فقط عندما يدعم خادم الهوية وواجهات API تقنية DPoP
+ */
+const validateDpop = (dpop: boolean = false): boolean => {
+  if (typeof dpop !== 'boolean') {
+    throw new ConfigError(`Setting "dpop" must be true or false: "${dpop}"`);
+  }
+  return dpop;
+};
+
+/**
+ * Validate Retry Policy
+ * Fills in defaults - delays and the timeout must be positive and maxDelayMs at least baseDelayMs
+ *
+ * التحقق من سياسة إعادة المحاولة
+ * يملأ القيم الافتراضية - يجب أن تكون التأخيرات والمهلة موجبة و maxDelayMs لا يقل عن baseDelayMs
+ */
+const validateRetryPolicy = (retry: Partial<RetryPolicy> = {}): RetryPolicy => {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...retry };
+
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+    throw new ConfigError(`Setting "retry.maxAttempts" must be an integer >= 1: "${policy.maxAttempts}"`);
+  }
+  if (typeof policy.baseDelayMs !== 'number' || policy.baseDelayMs <= 0) {
+    throw new ConfigError(`Setting "retry.baseDelayMs" must be a number > 0: "${policy.baseDelayMs}"`);
+  }
+  if (typeof policy.maxDelayMs !== 'number' || policy.maxDelayMs < policy.baseDelayMs) {
+    throw new ConfigError('Setting "retry.maxDelayMs" must be a number >= "retry.baseDelayMs"');
+  }
+  if (typeof policy.timeoutMs !== 'number' || policy.timeoutMs <= 0) {
+    throw new ConfigError(`Setting "retry.timeoutMs" must be a number > 0: "${policy.timeoutMs}"`);
+  }
+
+  return policy;
+};
+
+/**
+ * Resolve Environment Name
+ * REACT_APP_ENVIRONMENT wins over the "environment" field of config.json
+ *
+ * تحديد اسم البيئة
+ * REACT_APP_ENVIRONMENT له الأولوية على حقل "environment" في config.json
+ */
+const resolveEnvironmentName = (file: ConfigFile): EnvironmentName => {
+  const name = process.env.REACT_APP_ENVIRONMENT || file.environment;
+
+  if (!name) {
+    throw new ConfigError(`No environment selected - set "environment" in ${CONFIG_URL} or REACT_APP_ENVIRONMENT`);
+  }
+  if (!(ENVIRONMENT_NAMES as readonly string[]).includes(name)) {
+    throw new ConfigError(`Unknown environment "${name}" - expected one of: ${ENVIRONMENT_NAMES.join(', ')}`);
+  }
+
+  return name as EnvironmentName;
+};
+
+/**
+ * Build App Config
+ * Merges config.json and environment variables, then validates the result
+ *
+ * بناء تكوين التطبيق
+ * يدمج config.json ومتغيرات البيئة، ثم يتحقق من النتيجة
+ */
+const buildAppConfig = (file: ConfigFile): AppConfig => {
+  const environment = resolveEnvironmentName(file);
+  const settings: EnvironmentSettings = file.environments?.[environment] ?? {};
+
+  const identityServerUrl = process.env.REACT_APP_IDENTITY_SERVER_URL || settings.identityServerUrl;
+  const clientId = process.env.REACT_APP_CLIENT_ID || settings.clientId;
+  const apiBaseUrl = process.env.REACT_APP_API_BASE_URL || settings.apiBaseUrl;
+
+  if (!clientId || !clientId.trim()) {
+    throw new ConfigError(`Missing required setting "clientId" for environment "${environment}"`);
+  }
+
+  const primaryProvider: IdentityProvider = {
+    id: PRIMARY_PROVIDER_ID,
+    displayName: 'SBC',
+    identityServerUrl: validateUrl('identityServerUrl', identityServerUrl),
+    clientId: clientId.trim(),
+  };
+
+  const primaryApi: ApiResource = {
+    id: PRIMARY_API_ID,
+    baseUrl: validateUrl('apiBaseUrl', apiBaseUrl),
+    scopes: ['CalcApi'],
+  };
+
+  return {
+    environment,
+    identityServerUrl: primaryProvider.identityServerUrl,
+    clientId: primaryProvider.clientId,
+    apiBaseUrl: primaryApi.baseUrl,
+    providers: validateProviders(primaryProvider, settings.providers),
+    apis: validateApis(primaryApi, settings.apis),
+    idle: validateIdlePolicy(settings.idle),
+    renewStrategies: validateRenewStrategies(settings.renewStrategies),
+    tokenStorage: validateTokenStorage(settings.tokenStorage),
+    sessionChangeAction: validateSessionChangeAction(settings.sessionChangeAction),
+    audit: validateAuditSettings(settings.audit),
+    dpop: validateDpop(settings.dpop),
+    retry: validateRetryPolicy(settings.retry),
+  };
+};
+
+/**
+ * Load App Config Function
+ * Must be awaited before the AuthService and the API clients are created (see index.tsx)
+ *
+ * وظيفة تحميل تكوين التطبيق
+ * يجب انتظارها قبل إنشاء AuthService وعملاء API (انظر index.tsx)
+ */
+export const loadAppConfig = async (): Promise<AppConfig> => {
+  const file = await fetchConfigFile();
+  currentConfig = buildAppConfig(file);
+  return currentConfig;
+};
+
+/**
+ * Get App Config Function
+ * Returns the loaded configuration, fails clearly if loadAppConfig() was not awaited
+ *
+ * وظيفة الحصول على تكوين التطبيق
+ * يعيد التكوين المحمل، ويفشل بوضوح إذا لم يتم انتظار loadAppConfig()
+ */
+export const getAppConfig = (): AppConfig => {
+  if (!currentConfig) {
+    throw new ConfigError('App configuration has not been loaded - call loadAppConfig() first');
+  }
+  return currentConfig;
+};
@@ -18,11 +18,13 @@
  * redirect_uri: Where Identity Server redirects after login
  * post_logout_redirect_uri: Where Identity Server redirects after logout
  * silent_redirect_uri: Where Identity Server redirects for silent token renewal
+ * popup_redirect_uri: Where Identity Server redirects inside the login popup
  * response_type: 'code' = Authorization Code flow (most secure)
  * scope: What permissions/claims the app requests
- * automaticSilentRenew: Automatically refresh tokens before they expire
+ * automaticSilentRenew: Off - AuthService renews tokens itself (see renewStrategies in appConfig.ts)
  * loadUserInfo: Load user profile information
- * userStore: Where to store tokens (localStorage)
+ * userStore: Where to store tokens (configurable, see storage/tokenStorage.ts)
+ * dpop: DPoP-bound tokens when "dpop" is on in runtime config (key pair kept in IndexedDB)
  * 
  * شرح التكوين:
  * 
@@ -31,44 +33,96 @@
  * redirect_uri: المكان الذي يعيد خادم الهوية التوجيه إليه بعد تسجيل الدخول
  * post_logout_redirect_uri: المكان الذي يعيد خادم الهوية التوجيه إليه بعد تسجيل الخروج
  * silent_redirect_uri: المكان الذي يعيد خادم الهوية التوجيه إليه لتحديث الرمز المميز الصامت
+ * popup_redirect_uri: المكان الذي يعيد خادم الهوية التوجيه إليه داخل نافذة تسجيل الدخول المنبثقة
  * response_type: 'code' = تدفق رمز التفويض (الأكثر أماناً)
  * scope: ما هي الأذونات/المطالبات التي يطلبها التطبيق
- * automaticSilentRenew: تحديث الرموز المميزة تلقائياً قبل انتهائها
+ * automaticSilentRenew: معطل - AuthService يجدد الرموز بنفسه (انظر renewStrategies في appConfig.ts)
  * loadUserInfo: تحميل معلومات ملف المستخدم
- * userStore: مكان تخزين الرموز المميزة (localStorage)
+ * userStore: مكان تخزين الرموز المميزة (قابل للتكوين، انظر storage/tokenStorage.ts)
+ * dpop: رموز مرتبطة بـ DPoP عند تفعيل "dpop" في تكوين وقت التشغيل (زوج المفاتيح محفوظ في IndexedDB)
  * ============================================================================
  */
 
-import { UserManagerSettings, WebStorageStateStore } from 'oidc-client-ts';
+import { IndexedDbDPoPStore, StateStore, UserManagerSettings } from 'oidc-client-ts';
+import { AppConfig, getAppConfig, IdentityProvider, PRIMARY_PROVIDER_ID } from './appConfig';
 
-// Identity Server URL - where authentication happens
-// عنوان URL لخادم الهوية - حيث تحدث المصادقة
-const IDENTITY_SERVER_URL = 'https://www.sbcsdaia.com';
+/**
+ * Auth Service Config
+ * Everything createAuthService() needs - the runtime config settings it uses,
+ * plus the app origin the redirect URIs point to
+ *
+ * تكوين خدمة المصادقة
+ * كل ما يحتاجه createAuthService() - إعدادات تكوين وقت التشغيل التي يستخدمها،
+ * بالإضافة إلى أصل التطبيق الذي تشير إليه عناوين URI لإعادة التوجيه
+ */
+export interface AuthServiceConfig
+  extends Pick<AppConfig, 'providers' | 'apis' | 'renewStrategies' | 'tokenStorage' | 'sessionChangeAction' | 'audit' | 'dpop'> {
+  origin: string;               // e.g. http://localhost:3000 / مثل http://localhost:3000
+}
+
+/**
+ * Get Auth Service Config
+ * The app's config: runtime config (config.json / env) and the current origin
+ *
+ * الحصول على تكوين خدمة المصادقة
+ * تكوين التطبيق: تكوين وقت التشغيل (config.json / البيئة) والأصل الحالي
+ */
+export const getAuthServiceConfig = (): AuthServiceConfig => {
+  const { providers, apis, renewStrategies, tokenStorage, sessionChangeAction, audit, dpop } = getAppConfig();
+  return {
+    providers,
+    apis,
+    renewStrategies,
+    tokenStorage,
+    sessionChangeAction,
+    audit,
+    dpop,
+    origin: window.location.origin,
+  };
+};
+
+/**
+ * Get Login Scope
+ * Scopes requested at login - only the first API; other APIs ask for consent on first use
+ * offline_access asks Identity Server for a refresh token (refreshToken renew strategy)
+ *
+ * الحصول على نطاق تسجيل الدخول
+ * النطاقات المطلوبة عند تسجيل الدخول - أول API فقط؛ واجهات API الأخرى تطلب الموافقة عند أول استخدام
+ * offline_access يطلب من خادم الهوية رمز تحديث (استراتيجية التجديد refreshToken)
+ */
+const getLoginScope = (provider: IdentityProvider, config: AuthServiceConfig): string => {
+  const baseScope = provider.scope || ['openid', 'profile', 'roles', ...config.apis[0].scopes].join(' ');
+  return config.renewStrategies.includes('refreshToken') ? `${baseScope} offline_access` : baseScope;
+};
 
 /**
  * Get Redirect URI
  * Returns the callback URL where Identity Server redirects after login
- * Format: http://localhost:3000/auth/callback (or your domain)
+ * Format: http://localhost:3000/auth/callback (SBC) or /auth/callback/<provider id> (partners)
+ * The provider id in the path tells AuthCallback which UserManager completes the login
  * 
  * الحصول على عنوان URI لإعادة التوجيه
  * يعيد عنوان URL للاستدعاء حيث يعيد خادم الهوية التوجيه بعد تسجيل الدخول
- * التنسيق: http://localhost:3000/auth/callback (أو نطاقك)
+ * التنسيق: http://localhost:3000/auth/callback (SBC) أو /auth/callback/<معرف الموفر> (الشركاء)
+ * معرف الموفر في المسار يخبر AuthCallback أي UserManager يكمل تسجيل الدخول
  */
-const getRedirectUri = () => {
-  return `${window.location.origin}/auth/callback`;
+const getRedirectUri = (origin: string, providerId: string) => {
+  return providerId === PRIMARY_PROVIDER_ID
+    ? `${origin}/auth/callback`
+    : `${origin}/auth/callback/${providerId}`;
 };
 
 /**
  * Get Post Logout Redirect URI
  * Returns the URL where Identity Server redirects after logout
- * Usually the home page
+ * SignoutCallback finishes the logout there, then shows the "signed out" page
  * 
  * الحصول على عنوان URI لإعادة التوجيه بعد تسجيل الخروج
  * يعيد عنوان URL حيث يعيد خادم الهوية التوجيه بعد تسجيل الخروج
- * عادة الصفحة الرئيسية
+ * يكمل SignoutCallback تسجيل الخروج هناك، ثم يعرض صفحة "تم تسجيل الخروج"
  */
-const getPostLogoutRedirectUri = () => {
-  return `${window.location.origin}/`;
+const getPostLogoutRedirectUri = (origin: string) => {
+  return `${origin}/signout-callback`;
 };
 
 /**
@@ -80,39 +134,65 @@ const getPostLogoutRedirectUri = () => {
  * يعيد عنوان URL لتحديث الرمز المميز الصامت
  * يتم فتح هذا في iframe مخفي لتحديث الرموز المميزة دون تفاعل المستخدم
  */
-const getSilentRedirectUri = () => {
-  return `${window.location.origin}/silent-renew`;
+const getSilentRedirectUri = (origin: string) => {
+  return `${origin}/silent-renew`;
 };
 
 /**
- * Auth Configuration Object
- * Contains all settings for OIDC/OAuth2 authentication
- * This is passed to UserManager to configure the OIDC client
+ * Get Popup Redirect URI
+ * Returns the callback URL loaded inside the login popup window
+ * The popup hands the response back to the main window and closes
  * 
- * كائن تكوين المصادقة
- * يحتوي على جميع الإعدادات لمصادقة OIDC/OAuth2
- * يتم تمرير هذا إلى UserManager لتكوين عميل OIDC
+ * الحصول على عنوان URI لإعادة التوجيه المنبثق
+ * يعيد عنوان URL للاستدعاء الذي يتم تحميله داخل نافذة تسجيل الدخول المنبثقة
+ * تعيد النافذة المنبثقة الاستجابة إلى النافذة الرئيسية ثم تغلق
  */
-export const authConfig: UserManagerSettings = {
+const getPopupRedirectUri = (origin: string) => {
+  return `${origin}/auth/popup-callback`;
+};
+
+/**
+ * Create Auth Config Function
+ * Contains all settings for OIDC/OAuth2 authentication with one identity provider
+ * This is passed to that provider's UserManager to configure the OIDC client
+ * userStore and dpopStore are shared by every provider (entries are stored per
+ * authority / client ID, so providers never overwrite each other)
+ * 
+ * وظيفة إنشاء تكوين المصادقة
+ * يحتوي على جميع الإعدادات لمصادقة OIDC/OAuth2 مع موفر هوية واحد
+ * يتم تمرير هذا إلى UserManager الخاص بهذا الموفر لتكوين عميل OIDC
+ * userStore و dpopStore مشتركان بين جميع الموفرين (يتم تخزين الإدخالات لكل
+ * authority / معرف عميل، لذا لا يكتب الموفرون فوق بعضهم)
+ */
+export const createAuthConfig = (
+  provider: IdentityProvider,
+  config: AuthServiceConfig,
+  userStore: StateStore,
+  dpopStore?: IndexedDbDPoPStore
+): UserManagerSettings => ({
   // Identity Server URL - where to connect for authentication
   // عنوان URL لخادم الهوية - المكان للاتصال للمصادقة
-  authority: IDENTITY_SERVER_URL,
+  authority: provider.identityServerUrl,
   
   // Client ID - registered on Identity Server
   // معرف العميل - مسجل على خادم الهوية
-  client_id: 'CalcClient',
+  client_id: provider.clientId,
   
   // Callback URL after login
   // عنوان URL للاستدعاء بعد تسجيل الدخول
-  redirect_uri: getRedirectUri(),
+  redirect_uri: getRedirectUri(config.origin, provider.id),
   
   // Callback URL after logout
   // عنوان URL للاستدعاء بعد تسجيل الخروج
-  post_logout_redirect_uri: getPostLogoutRedirectUri(),
+  post_logout_redirect_uri: getPostLogoutRedirectUri(config.origin),
   
   // Callback URL for silent token renewal
   // عنوان URL للاستدعاء لتحديث الرمز المميز الصامت
-  silent_redirect_uri: getSilentRedirectUri(),
+  silent_redirect_uri: getSilentRedirectUri(config.origin),
+
+  // Callback URL inside the login popup (popup login mode)
+  // عنوان URL للاستدعاء داخل النافذة المنبثقة (وضع تسجيل الدخول المنبثق)
+  popup_redirect_uri: getPopupRedirectUri(config.origin),
   
   // Response type: 'code' = Authorization Code flow (most secure OAuth2 flow)
   // نوع الاستجابة: 'code' = تدفق رمز التفويض (أكثر تدفقات OAuth2 أماناً)
@@ -122,34 +202,45 @@ export const authConfig: UserManagerSettings = {
   // openid: required for OIDC
   // profile: user profile information
   // roles: user roles
-  // CalcApi, CalcAttachmentApi: custom API scopes
+  // CalcApi: Calc API scope (CalcAttachmentApi and other API scopes are added on first use)
+  // offline_access: refresh token (only with the refreshToken renew strategy)
   // النطاقات: ما هي الأذونات/المطالبات التي يطلبها التطبيق
   // openid: مطلوب لـ OIDC
   // profile: معلومات ملف المستخدم
   // roles: أدوار المستخدم
-  // CalcApi، CalcAttachmentApi: نطاقات API مخصصة
-  scope: 'openid profile roles CalcApi CalcAttachmentApi',
+  // CalcApi: نطاق Calc API (CalcAttachmentApi ونطاقات API الأخرى تُضاف عند أول استخدام)
+  // offline_access: رمز التحديث (فقط مع استراتيجية التجديد refreshToken)
+  // Partner providers can override the base scopes / يمكن لموفري الشركاء تجاوز النطاقات الأساسية
+  scope: getLoginScope(provider, config),
 
   // Token management settings
   // إعدادات إدارة الرموز المميزة
-  automaticSilentRenew: true,  // Automatically refresh tokens before expiration / تحديث الرموز تلقائياً قبل انتهائها
+  // Renewal is driven by AuthService so it can apply renewStrategies with fallback
+  // يتم التحكم في التجديد بواسطة AuthService حتى يطبق renewStrategies مع البديل
+  automaticSilentRenew: false,
   loadUserInfo: true,         // Load user profile information / تحميل معلومات ملف المستخدم
 
-  // Token storage - store tokens in browser localStorage
-  // تخزين الرموز المميزة - تخزين الرموز في localStorage للمتصفح
-  userStore: new WebStorageStateStore({
-    store: window.localStorage
-  }),
+  // Token storage (memory, sessionStorage, localStorage or encryptedIndexedDb)
+  // تخزين الرموز المميزة (memory، sessionStorage، localStorage أو encryptedIndexedDb)
+  userStore,
+
+  // DPoP (RFC 9449): tokens are bound to a key pair kept in IndexedDB, so a stolen token
+  // cannot be replayed; the authorization code is bound too (dpop_jkt). Off = Bearer tokens
+  // DPoP (RFC 9449): الرموز مرتبطة بزوج مفاتيح محفوظ في IndexedDB، لذا لا يمكن إعادة استخدام
+  // رمز مسروق؛ ويُربط رمز التفويض أيضاً (dpop_jkt). معطل = رموز Bearer
+  dpop: dpopStore ? { store: dpopStore, bind_authorization_code: true } : undefined,
 
   // Additional settings
   // إعدادات إضافية
-  filterProtocolClaims: true,  // Filter OIDC protocol claims / تصفية مطالبات بروتوكول OIDC
+  // Filter OIDC protocol claims - auth_time, acr and amr are kept for step-up checks (recentAuth.ts)
+  // تصفية مطالبات بروتوكول OIDC - يتم الاحتفاظ بـ auth_time و acr و amr لفحوصات step-up
+  filterProtocolClaims: ['nbf', 'jti', 'nonce', 'azp', 'at_hash'],
   monitorSession: true,        // Monitor session status / مراقبة حالة الجلسة
 
   // PKCE (Proof Key for Code Exchange) settings for enhanced security
   // إعدادات PKCE (مفتاح الإثبات لتبادل الرمز) لتحسين الأمان
   response_mode: 'query',      // Pass response in URL query parameters / تمرير الاستجابة في معاملات URL
-};
+});
 
 /**
  * Identity Server Endpoints
@@ -160,10 +251,10 @@ export const authConfig: UserManagerSettings = {
  * عناوين URL المباشرة لنقاط نهاية خادم الهوية (للرجوع إليها)
  * يتم اكتشاف هذه تلقائياً بواسطة oidc-client-ts، ولكن تم سردها هنا للوضوح
  */
-export const IDENTITY_CONFIG = {
-  authority: IDENTITY_SERVER_URL,
-  authorizeEndpoint: `${IDENTITY_SERVER_URL}/connect/authorize`,      // Login endpoint / نقطة نهاية تسجيل الدخول
-  tokenEndpoint: `${IDENTITY_SERVER_URL}/connect/token`,             // Token exchange endpoint / نقطة نهاية تبادل الرمز المميز
-  userInfoEndpoint: `${IDENTITY_SERVER_URL}/connect/userinfo`,        // User info endpoint / نقطة نهاية معلومات المستخدم
-  endSessionEndpoint: `${IDENTITY_SERVER_URL}/connect/endsession`,   // Logout endpoint / نقطة نهاية تسجيل الخروج
-};
+export const getIdentityEndpoints = (identityServerUrl: string) => ({
+  authority: identityServerUrl,
+  authorizeEndpoint: `${identityServerUrl}/connect/authorize`,      // Login endpoint / نقطة نهاية تسجيل الدخول
+  tokenEndpoint: `${identityServerUrl}/connect/token`,             // Token exchange endpoint / نقطة نهاية تبادل الرمز المميز
+  userInfoEndpoint: `${identityServerUrl}/connect/userinfo`,        // User info endpoint / نقطة نهاية معلومات المستخدم
+  endSessionEndpoint: `${identityServerUrl}/connect/endsession`,   // Logout endpoint / نقطة نهاية تسجيل الخروج
+});
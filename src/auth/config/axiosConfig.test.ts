@@ -0,0 +1,185 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { User } from 'oidc-client-ts';
+import { createApiClient, TokenProvider } from './axiosConfig';
+import { ApiRateLimitError, ApiTimeoutError } from '../errors/apiErrors';
+import { ConsentRequiredError } from '../errors/authErrors';
+
+const api = { id: 'reports', baseUrl: 'https://reports.example.test', scopes: ['ReportsApi'] };
+const retryPolicy = { maxAttempts: 1, baseDelayMs: 100, maxDelayMs: 100, timeoutMs: 5000 };
+
+const createTokenProvider = (getAccessToken: TokenProvider['getAccessToken']): TokenProvider => ({
+  getAccessToken,
+  getUser: jest.fn().mockResolvedValue(null),
+  removeUser: jest.fn().mockResolvedValue(undefined),
+  renewToken: jest.fn().mockResolvedValue(null),
+  login: jest.fn().mockResolvedValue(undefined),
+  getDpopProof: jest.fn().mockResolvedValue(null),
+});
+
+// Resolves like axios does for 2xx, rejects with an AxiosError for any other status
+const respond = async (config: InternalAxiosRequestConfig, status: number, headers: Record<string, string> = {}): Promise<AxiosResponse> => {
+  const response = { data: {}, status, statusText: '', headers, config };
+  if (status >= 400) {
+    throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, config, {}, response);
+  }
+  return response;
+};
+
+describe('createApiClient', () => {
+  it('sends the token for the API scopes', async () => {
+    const getAccessToken = jest.fn().mockResolvedValue('reports-token');
+    const adapter: AxiosAdapter = jest.fn(async (config) => ({ data: {}, status: 200, statusText: 'OK', headers: {}, config }));
+    const client = createApiClient(api, createTokenProvider(getAccessToken), retryPolicy);
+
+    const response = await client.get('/summary', { adapter });
+
+    expect(getAccessToken).toHaveBeenCalledWith({ scopes: ['ReportsApi'] });
+    expect(response.config.headers.Authorization).toBe('Bearer reports-token');
+  });
+
+  it('fails a request that needs consent without sending it', async () => {
+    const error = new ConsentRequiredError(['ReportsApi']);
+    const adapter: AxiosAdapter = jest.fn();
+    const client = createApiClient(api, createTokenProvider(jest.fn().mockRejectedValue(error)), retryPolicy);
+
+    await expect(client.get('/summary', { adapter })).rejects.toBe(error);
+    expect(adapter).not.toHaveBeenCalled();
+  });
+
+  it('gives every request the configured timeout and reports a timeout', async () => {
+    const adapter: AxiosAdapter = jest.fn(async (config) => {
+      throw new AxiosError(`timeout of ${config.timeout}ms exceeded`, AxiosError.ETIMEDOUT, config);
+    });
+    const client = createApiClient(api, createTokenProvider(jest.fn().mockResolvedValue('reports-token')), retryPolicy);
+
+    await expect(client.get('/summary', { adapter })).rejects.toBeInstanceOf(ApiTimeoutError);
+    expect(adapter).toHaveBeenCalledWith(expect.objectContaining({ timeout: 5000 }));
+  });
+
+  it('reports a 429 it will not wait for as rate limited', async () => {
+    const adapter: AxiosAdapter = jest.fn(async (config) => {
+      const response = { data: '', status: 429, statusText: 'Too Many Requests', headers: { 'retry-after': '60' }, config };
+      throw new AxiosError('Request failed with status code 429', AxiosError.ERR_BAD_REQUEST, config, {}, response);
+    });
+    const client = createApiClient(api, createTokenProvider(jest.fn().mockResolvedValue('reports-token')), { ...retryPolicy, maxAttempts: 3 });
+
+    await expect(client.get('/summary', { adapter })).rejects.toMatchObject({ kind: 'rateLimited', retryAfterMs: 60000 });
+    await expect(client.get('/summary', { adapter })).rejects.toBeInstanceOf(ApiRateLimitError);
+    expect(adapter).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('401 recovery', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // API that rejects the old token and accepts only the current renewed one / API يرفض الرمز القديم ويقبل الرمز المجدد الحالي فقط
+  const createSession = () => {
+    let token = 'old-token';
+    const tokenProvider = createTokenProvider(jest.fn(async () => token));
+    const renew = (newToken: string) => {
+      token = newToken;
+    };
+    const adapter: AxiosAdapter = jest.fn(async (config) =>
+      respond(config, config.headers.Authorization === `Bearer ${token}` && token !== 'old-token' ? 200 : 401));
+    return { tokenProvider, adapter, renew };
+  };
+
+  it('renews once for parallel 401s and replays both with the new token', async () => {
+    const { tokenProvider, adapter, renew } = createSession();
+    tokenProvider.renewToken = jest.fn(async () => {
+      renew('new-token');
+      return {} as User;
+    });
+    const client = createApiClient(api, tokenProvider, retryPolicy);
+
+    const responses = await Promise.all([client.get('/one', { adapter }), client.get('/two', { adapter })]);
+
+    expect(tokenProvider.renewToken).toHaveBeenCalledTimes(1);
+    expect(responses.map((response) => response.config.headers.Authorization)).toEqual(['Bearer new-token', 'Bearer new-token']);
+    expect(tokenProvider.login).not.toHaveBeenCalled();
+  });
+
+  it('replays a request sent with a token that was renewed meanwhile, without renewing again', async () => {
+    const { tokenProvider, adapter, renew } = createSession();
+    const client = createApiClient(api, tokenProvider, retryPolicy);
+    (adapter as jest.Mock).mockImplementationOnce(async (config) => {
+      renew('new-token');
+      return respond(config, 401);
+    });
+
+    const response = await client.get('/one', { adapter });
+
+    expect(response.config.headers.Authorization).toBe('Bearer new-token');
+    expect(tokenProvider.renewToken).not.toHaveBeenCalled();
+  });
+
+  it('starts the login once and rejects every request when the renewal fails', async () => {
+    const { tokenProvider, adapter } = createSession();
+    tokenProvider.renewToken = jest.fn().mockRejectedValue(new Error('login_required'));
+    const client = createApiClient(api, tokenProvider, retryPolicy);
+
+    const results = await Promise.allSettled([client.get('/one', { adapter }), client.get('/two', { adapter })]);
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    expect(tokenProvider.renewToken).toHaveBeenCalledTimes(1);
+    expect(tokenProvider.removeUser).toHaveBeenCalledWith({ reason: 'unauthorized' });
+    expect(tokenProvider.login).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('DPoP', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createDpopTokenProvider = () => {
+    const tokenProvider = createTokenProvider(jest.fn().mockResolvedValue('access-token'));
+    tokenProvider.getDpopProof = jest.fn(async (...[, , , nonce]: Parameters<TokenProvider['getDpopProof']>) => `proof-${nonce ?? 'none'}`);
+    return tokenProvider;
+  };
+
+  it('sends a proof for the method, the URL without query and the access token', async () => {
+    const tokenProvider = createDpopTokenProvider();
+    const adapter: AxiosAdapter = jest.fn(async (config) => respond(config, 200));
+    const client = createApiClient(api, tokenProvider, retryPolicy);
+
+    const response = await client.post('/reports/1?format=pdf#page', {}, { adapter });
+
+    expect(tokenProvider.getDpopProof).toHaveBeenCalledWith('https://reports.example.test/reports/1', 'post', 'access-token', undefined);
+    expect(response.config.headers.Authorization).toBe('DPoP access-token');
+    expect(response.config.headers.DPoP).toBe('proof-none');
+  });
+
+  it('replays once with the nonce the API asks for and keeps it for the next proofs', async () => {
+    const tokenProvider = createDpopTokenProvider();
+    const adapter: AxiosAdapter = jest.fn(async (config) =>
+      config.headers.DPoP === 'proof-nonce-1'
+        ? respond(config, 200)
+        : respond(config, 401, { 'www-authenticate': 'DPoP error="use_dpop_nonce"', 'dpop-nonce': 'nonce-1' }));
+    const client = createApiClient(api, tokenProvider, retryPolicy);
+
+    const response = await client.get('/reports', { adapter });
+    await client.get('/reports', { adapter });
+
+    expect(response.config.headers.DPoP).toBe('proof-nonce-1');
+    expect(adapter).toHaveBeenCalledTimes(3);
+    expect(tokenProvider.renewToken).not.toHaveBeenCalled();
+  });
+
+  it('does not replay a second use_dpop_nonce error', async () => {
+    const tokenProvider = createDpopTokenProvider();
+    const adapter: AxiosAdapter = jest.fn(async (config) =>
+      respond(config, 401, { 'www-authenticate': 'DPoP error="use_dpop_nonce"', 'dpop-nonce': 'nonce-1' }));
+    const client = createApiClient(api, tokenProvider, retryPolicy);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(client.get('/reports', { adapter })).rejects.toThrow();
+    expect(tokenProvider.getDpopProof).toHaveBeenCalledWith(expect.any(String), 'get', 'access-token', 'nonce-1');
+  });
+});
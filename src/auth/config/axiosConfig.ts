@@ -1,62 +1,211 @@
 import axios, { AxiosInstance, InternalAxiosRequestConfig, AxiosError } from 'axios';
-import { BASE_API_URL } from './api';
-import authService from '../authService';
-
-// Create axios instance with base configuration
-const apiClient: AxiosInstance = axios.create({
-  baseURL: BASE_API_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
-
-// Request interceptor to add auth token
-apiClient.interceptors.request.use(
-  async (config: InternalAxiosRequestConfig) => {
-    try {
-      const token = await authService.getAccessToken();
+import { User } from 'oidc-client-ts';
+import { getApiResources, getRetryPolicy } from './api';
+import { ApiResource, RetryPolicy } from './appConfig';
+import { AccessTokenOptions } from '../apiTokens';
+import { LoginOptions, LogoutOptions } from '../authService';
+import { toApiError } from '../errors/apiErrors';
+import { toAuthError } from '../errors/authErrors';
+import { getRetryDelay, RetryOptions } from '../retryPolicy';
+
+// Per-request scopes - override the API's scopes (e.g. a feature needing an extra scope)
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    scopes?: string[];
+    // Set on the replay after a use_dpop_nonce error, so it is replayed once only
+    dpopNonceRetry?: boolean;
+    // Set on the replay after a 401, so a rejected token is renewed once per request
+    authRetry?: boolean;
+    // Per-request retry policy (see retryPolicy.ts), false = never retry
+    retry?: Partial<RetryOptions> | false;
+    // Attempts made so far - set by the retry interceptor
+    retryAttempt?: number;
+  }
+}
+
+// Where API clients get their tokens - the app's AuthService, or a stub in tests
+export interface TokenProvider {
+  getAccessToken(options?: AccessTokenOptions): Promise<string | null>;
+  getUser(): Promise<User | null>;
+  removeUser(options?: LogoutOptions): Promise<void>;
+  // Silent renew - concurrent callers share one renewal
+  renewToken(): Promise<User | null>;
+  login(options?: LoginOptions): Promise<void>;
+  // DPoP proof for one request, null when DPoP is off
+  getDpopProof(url: string, method: string, accessToken: string, nonce?: string): Promise<string | null>;
+}
+
+// DPoP proofs cover the target URL without query and fragment (htu)
+const getDpopTargetUrl = (client: AxiosInstance, config: InternalAxiosRequestConfig): string => {
+  const url = new URL(client.getUri(config), window.location.origin);
+  return `${url.origin}${url.pathname}`;
+};
+
+// API asks for a (new) DPoP nonce: 401 with WWW-Authenticate: DPoP error="use_dpop_nonce"
+const isDpopNonceError = (error: AxiosError): boolean =>
+  error.response?.status === 401 &&
+  String(error.response.headers['www-authenticate'] ?? '').includes('use_dpop_nonce') &&
+  Boolean(error.response.headers['dpop-nonce']);
+
+// Token a request was sent with ("Bearer <token>" or "DPoP <token>")
+const getSentToken = (config: InternalAxiosRequestConfig): string | undefined =>
+  String(config.headers.Authorization ?? '').split(' ')[1];
+
+// Session recovery in flight per token provider - every 401 meanwhile waits for it
+const sessionRecoveries = new WeakMap<TokenProvider, Promise<boolean>>();
+
+// Renew silently; only when renewal really fails (not just offline) start the login flow
+const renewOrLogin = async (auth: TokenProvider): Promise<boolean> => {
+  try {
+    if (await auth.renewToken()) {
+      return true;
+    }
+  } catch (error) {
+    if (toAuthError(error).kind === 'network') {
+      console.warn('Session renewal could not reach Identity Server:', error);
+      return false;
+    }
+    console.error('Session renewal failed:', error);
+  }
+
+  try {
+    await auth.removeUser({ reason: 'unauthorized' });
+    const { pathname, search, hash } = window.location;
+    await auth.login({ returnTo: { pathname, search, hash } });
+  } catch (error) {
+    console.error('Error starting login:', error);
+  }
+  return false;
+};
+
+// True when the session was renewed and requests can be replayed
+const recoverSession = (auth: TokenProvider): Promise<boolean> => {
+  let recovery = sessionRecoveries.get(auth);
+  if (!recovery) {
+    recovery = renewOrLogin(auth).finally(() => {
+      sessionRecoveries.delete(auth);
+    });
+    sessionRecoveries.set(auth, recovery);
+  }
+  return recovery;
+};
+
+const wait = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Create an axios instance for one API - requests get a token for that API's scopes only
+// Transient failures (timeouts included) are retried with retryPolicy (config.json "retry" by default)
+export const createApiClient = (
+  api: ApiResource,
+  tokenProvider: TokenProvider,
+  retryPolicy: RetryPolicy = getRetryPolicy()
+): AxiosInstance => {
+  const client = axios.create({
+    baseURL: api.baseUrl,
+    // A stalled request fails with ETIMEDOUT instead of hanging
+    timeout: retryPolicy.timeoutMs,
+    transitional: { clarifyTimeoutError: true },
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  // Last DPoP nonce sent by this API - included in the next proofs
+  let dpopNonce: string | undefined;
+
+  // Request interceptor to add auth token (and a fresh DPoP proof when DPoP is on)
+  // A token error (e.g. ConsentRequiredError) fails the request instead of sending it without auth
+  client.interceptors.request.use(
+    async (config: InternalAxiosRequestConfig) => {
+      const token = await tokenProvider.getAccessToken({ scopes: config.scopes ?? api.scopes });
 
       if (token) {
-        config.headers.Authorization = `Bearer ${token}`;
+        const proof = await tokenProvider.getDpopProof(getDpopTargetUrl(client, config), config.method ?? 'get', token, dpopNonce);
+        if (proof) {
+          config.headers.Authorization = `DPoP ${token}`;
+          config.headers.DPoP = proof;
+        } else {
+          config.headers.Authorization = `Bearer ${token}`;
+        }
       }
-    } catch (error) {
-      console.error('Error getting access token:', error);
+
+      return config;
+    },
+    (error: AxiosError) => {
+      return Promise.reject(error);
     }
+  );
 
-    return config;
-  },
-  (error: AxiosError) => {
-    return Promise.reject(error);
-  }
-);
-
-// Response interceptor to handle auth errors
-apiClient.interceptors.response.use(
-  (response) => {
-    return response;
-  },
-  async (error: AxiosError) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      console.error('Authentication error: Token expired or invalid');
-
-      // Try to get a fresh token
-      try {
-        const user = await authService.getUser();
-
-        if (!user || user.expired) {
-          // Redirect to login
-          await authService.removeUser();
-          window.location.href = '/login';
+  // Response interceptor to handle auth errors
+  client.interceptors.response.use(
+    (response) => {
+      // APIs may rotate the DPoP nonce on any response
+      if (response.headers['dpop-nonce']) {
+        dpopNonce = String(response.headers['dpop-nonce']);
+      }
+      return response;
+    },
+    async (error: AxiosError) => {
+      // Replay once with the nonce the API asked for
+      if (isDpopNonceError(error) && error.config && !error.config.dpopNonceRetry) {
+        dpopNonce = String(error.response?.headers['dpop-nonce']);
+        return client.request({ ...error.config, dpopNonceRetry: true });
+      }
+
+      // Token rejected: renew once for all failing requests, then replay them with the new token
+      if (error.response?.status === 401 && error.config && !error.config.authRetry) {
+        const config = error.config;
+        try {
+          const pending = sessionRecoveries.get(tokenProvider);
+
+          // Sent before a renewal that already finished - replay with the current token
+          const currentToken = pending ? null : await tokenProvider.getAccessToken({ scopes: config.scopes ?? api.scopes }).catch(() => null);
+          const isStale = Boolean(currentToken) && currentToken !== getSentToken(config);
+
+          if (isStale || await (pending ?? recoverSession(tokenProvider))) {
+            return client.request({ ...config, authRetry: true });
+          }
+        } catch (err) {
+          console.error('Error recovering session:', err);
         }
-      } catch (err) {
-        console.error('Error checking authentication:', err);
-        window.location.href = '/login';
       }
+
+      // Transient failure: wait (backoff or Retry-After) and send again
+      if (error.config && error.config.retry !== false) {
+        const attempt = error.config.retryAttempt ?? 1;
+        const delay = getRetryDelay(error, attempt, { ...retryPolicy, ...error.config.retry });
+        if (delay !== null) {
+          await wait(delay);
+          return client.request({ ...error.config, retryAttempt: attempt + 1 });
+        }
+      }
+
+      // ABP error responses, timeouts and rate limiting become typed errors (see errors/apiErrors.ts)
+      return Promise.reject(toApiError(error));
     }
+  );
 
-    return Promise.reject(error);
+  return client;
+};
+
+// One client per token provider and API, created on first use
+const apiClients = new WeakMap<TokenProvider, Map<string, AxiosInstance>>();
+
+// Client of a configured API (config.json "apis") - components use useApiClient(id)
+export const getApiClient = (id: string, tokenProvider: TokenProvider): AxiosInstance => {
+  let clients = apiClients.get(tokenProvider);
+  if (!clients) {
+    clients = new Map<string, AxiosInstance>();
+    apiClients.set(tokenProvider, clients);
   }
-);
 
-export default apiClient;
+  let client = clients.get(id);
+  if (!client) {
+    const api = getApiResources().find((resource) => resource.id === id);
+    if (!api) {
+      throw new Error(`Unknown API "${id}"`);
+    }
+    client = createApiClient(api, tokenProvider);
+    clients.set(id, client);
+  }
+  return client;
+};
@@ -11,6 +11,9 @@
  * - Listens to OIDC events (user loaded, token expired, etc.)
  * - Provides login/logout functions
  * - Exposes authentication state (isAuthenticated, isLoading, user)
+ * - Exposes the explicit auth status and last error (see authStatus.ts)
+ * - Exposes session expiry status (drives SessionExpiryDialog)
+ * - Exposes Identity Server session changes to confirm (drives SessionChangedDialog)
  * 
  * مكون موفر سياق المصادقة - AuthContext.tsx
  * يوفر هذا المكون حالة المصادقة والوظائف للتطبيق بالكامل
@@ -21,29 +24,56 @@
  * - الاستماع إلى أحداث OIDC (تحميل المستخدم، انتهاء الرمز المميز، إلخ)
  * - توفير وظائف تسجيل الدخول/الخروج
  * - كشف حالة المصادقة (isAuthenticated، isLoading، user)
+ * - كشف حالة المصادقة الصريحة وآخر خطأ (انظر authStatus.ts)
+ * - كشف حالة انتهاء الجلسة (تتحكم في SessionExpiryDialog)
+ * - كشف تغييرات جلسة خادم الهوية المطلوب تأكيدها (تتحكم في SessionChangedDialog)
  * 
  * ============================================================================
  * FLOW:
- * 1. App mounts → AuthProvider initializes
+ * 1. App mounts → AuthProvider initializes with the AuthService instance it is given
  * 2. Loads user from localStorage via authService.getUser()
  * 3. Sets up event listeners for OIDC events
  * 4. When user logs in → AuthCallback calls authService.completeLogin()
  * 5. OIDC events fire → AuthContext updates user state
  * 6. All components using useAuth() get updated authentication state
+ * 7. Login/logout/renewal in another tab → authService replays it here → same events fire
  * 
  * التدفق:
- * 1. App يتم تحميله → AuthProvider يتم تهيئته
+ * 1. App يتم تحميله → AuthProvider يتم تهيئته مع مثيل AuthService المعطى له
  * 2. يحمل المستخدم من localStorage عبر authService.getUser()
  * 3. يعد مستمعي الأحداث لأحداث OIDC
  * 4. عندما يسجل المستخدم الدخول → AuthCallback يستدعي authService.completeLogin()
  * 5. أحداث OIDC يتم تشغيلها → AuthContext يحدث حالة المستخدم
  * 6. جميع المكونات التي تستخدم useAuth() تحصل على حالة مصادقة محدثة
+ * 7. تسجيل الدخول/الخروج/التجديد في تبويب آخر → authService يعيد تطبيقه هنا → نفس الأحداث تنطلق
  * ============================================================================
  */
 
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useReducer, useState, ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { User } from 'oidc-client-ts';
-import authService from '../authService';
+import { AxiosInstance } from 'axios';
+import { AuthService, LoginOptions, LogoutOptions, RecentAuthOptions } from '../authService';
+import { SignedOutLocationState } from '../SignedOut';
+import { AccessTokenOptions } from '../apiTokens';
+import { authStateReducer, AuthStatus, INITIAL_AUTH_STATE } from '../authStatus';
+import { AuthEvent, SessionChangeType } from '../events/authEvents';
+import { AuthError, toAuthError } from '../errors/authErrors';
+import { PRIMARY_API_ID } from '../config/appConfig';
+import { getApiClient } from '../config/axiosConfig';
+
+/**
+ * Session Expiry Status
+ * active: token is valid (or no user)
+ * expiring: token is about to expire (back to active once a renewal succeeds)
+ * expired: token has expired
+ * 
+ * حالة انتهاء الجلسة
+ * active: الرمز المميز صالح (أو لا يوجد مستخدم)
+ * expiring: الرمز المميز على وشك الانتهاء (يعود إلى active بمجرد نجاح التجديد)
+ * expired: انتهت صلاحية الرمز المميز
+ */
+export type SessionExpiryStatus = 'active' | 'expiring' | 'expired';
 
 /**
  * AuthContext Type Definition
@@ -56,14 +86,25 @@ interface AuthContextType {
   user: User | null;                    // Current authenticated user / المستخدم المصادق عليه الحالي
   isAuthenticated: boolean;              // Whether user is authenticated / ما إذا كان المستخدم مصادقاً عليه
   isLoading: boolean;                   // Whether auth state is still loading / ما إذا كانت حالة المصادقة لا تزال قيد التحميل
-  login: () => Promise<void>;           // Function to initiate login / وظيفة لبدء تسجيل الدخول
-  logout: () => Promise<void>;          // Function to logout / وظيفة لتسجيل الخروج
-  getAccessToken: () => Promise<string | null>; // Get access token for API calls / الحصول على رمز الوصول لاستدعاءات API
+  status: AuthStatus;                   // Explicit auth status (renewing, expired, error...) / حالة المصادقة الصريحة
+  error: AuthError | null;              // Last login or renewal error / آخر خطأ في تسجيل الدخول أو التجديد
+  login: (options?: LoginOptions) => Promise<void>; // Function to initiate login (redirect or popup) / وظيفة لبدء تسجيل الدخول
+  logout: (options?: LogoutOptions) => Promise<void>; // Function to logout (global or local) / وظيفة لتسجيل الخروج (عام أو محلي)
+  getAccessToken: (options?: AccessTokenOptions) => Promise<string | null>; // Get access token for API calls (per-API with { scopes }) / الحصول على رمز الوصول لاستدعاءات API
+  requestScopes: (scopes: string[]) => Promise<User | null>; // Ask for consent to more scopes - from a user action only / طلب الموافقة على نطاقات إضافية - من إجراء المستخدم فقط
+  expiryStatus: SessionExpiryStatus;    // Session expiry status / حالة انتهاء الجلسة
+  renewSession: () => Promise<void>;    // Silently renew tokens ("Stay signed in") / تجديد الرموز بصمت
+  renewError: AuthError | null;         // Last token renewal failure / آخر فشل في تجديد الرمز المميز
+  sessionChange: SessionChangeType | null; // Session change awaiting the user's answer ('prompt' action) / تغيير جلسة بانتظار رد المستخدم
+  revalidateSession: () => Promise<void>; // Re-check the session with Identity Server / إعادة فحص الجلسة مع خادم الهوية
+  requireRecentAuth: (options?: RecentAuthOptions) => Promise<User | null>; // Step-up before a sensitive action / step-up قبل إجراء حساس
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
+const AuthServiceContext = createContext<AuthService | undefined>(undefined);
 
 interface AuthProviderProps {
+  authService: AuthService;             // Service instance (see createAuthService) / مثيل الخدمة (انظر createAuthService)
   children: ReactNode;
 }
 
@@ -74,9 +115,13 @@ interface AuthProviderProps {
  * مكون AuthProvider
  * يوفر سياق المصادقة لجميع المكونات الفرعية
  */
-export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+export const AuthProvider: React.FC<AuthProviderProps> = ({ authService, children }) => {
+  const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const [authState, dispatch] = useReducer(authStateReducer, INITIAL_AUTH_STATE);
+  const [expiryStatus, setExpiryStatus] = useState<SessionExpiryStatus>('active');
+  const [renewError, setRenewError] = useState<AuthError | null>(null);
+  const [sessionChange, setSessionChange] = useState<SessionChangeType | null>(null);
 
   useEffect(() => {
     /**
@@ -90,10 +135,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       try {
         const currentUser = await authService.getUser();
         setUser(currentUser);
+        dispatch({ type: 'initialized', user: currentUser });
       } catch (error) {
         console.error('Error loading user:', error);
-      } finally {
-        setIsLoading(false);
+        dispatch({ type: 'initializationFailed', error: toAuthError(error) });
       }
     };
 
@@ -103,23 +148,63 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
      * Subscribe to OIDC Events
      * Listen for user loaded, unloaded, and token expiration events
      * These events are fired by oidc-client-ts when authentication state changes
+     * Every identity provider has its own UserManager - listen to all of them
      * 
      * الاشتراك في أحداث OIDC
      * الاستماع لأحداث تحميل المستخدم، إلغاء تحميله، وانتهاء الرمز المميز
      * يتم تشغيل هذه الأحداث بواسطة oidc-client-ts عندما تتغير حالة المصادقة
+     * كل موفر هوية لديه UserManager خاص به - استمع إليها جميعاً
      */
-    const userManager = authService.getUserManager();
+    const userManagers = authService.getUserManagers();
 
-    // Event handler: User loaded (after login or token refresh)
-    // معالج الحدث: تم تحميل المستخدم (بعد تسجيل الدخول أو تحديث الرمز المميز)
+    // Event handler: User loaded (after login or token refresh, in this tab or another tab)
+    // معالج الحدث: تم تحميل المستخدم (بعد تسجيل الدخول أو تحديث الرمز المميز، في هذا التبويب أو تبويب آخر)
     const handleUserLoaded = (loadedUser: User) => {
       setUser(loadedUser);
+      dispatch({ type: 'userLoaded' });
+      setExpiryStatus('active');
+      setRenewError(null);
+      setSessionChange(null);
     };
 
-    // Event handler: User unloaded (after logout)
-    // معالج الحدث: تم إلغاء تحميل المستخدم (بعد تسجيل الخروج)
+    // Event handler: User unloaded (after logout, in this tab or another tab)
+    // معالج الحدث: تم إلغاء تحميل المستخدم (بعد تسجيل الخروج، في هذا التبويب أو تبويب آخر)
     const handleUserUnloaded = () => {
       setUser(null);
+      dispatch({ type: 'userUnloaded' });
+      setExpiryStatus('active');
+      setSessionChange(null);
+    };
+
+    // The previous provider's user removed after a provider switch is not a sign-out
+    // إزالة مستخدم الموفر السابق بعد تبديل الموفر ليست تسجيل خروج
+    const userUnloadedHandlers = userManagers.map((userManager) => () => {
+      if (authService.isActiveUserManager(userManager)) {
+        handleUserUnloaded();
+      }
+    });
+
+    // Event handler: Identity Server session changed - ask the user when configured to ('prompt')
+    // معالج الحدث: تغيرت جلسة خادم الهوية - اسأل المستخدم عند التكوين لذلك ('prompt')
+    const handleSessionChanged = (event: AuthEvent<'sessionChanged'>) => {
+      if (event.payload.action === 'prompt') {
+        setSessionChange(event.payload.change);
+      }
+    };
+
+    // Event handler: Access token about to expire - warn the user
+    // authService renews at the same time; userLoaded closes the warning when that succeeds
+    // معالج الحدث: رمز الوصول على وشك الانتهاء - حذّر المستخدم
+    // authService يجدد في نفس الوقت؛ userLoaded يغلق التحذير عند نجاح ذلك
+    const handleTokenExpiring = () => {
+      setExpiryStatus('expiring');
+    };
+
+    // Event handler: Token renewal failed - the token will run out, surface the error
+    // معالج الحدث: فشل تجديد الرمز المميز - سينتهي الرمز المميز، اكشف الخطأ
+    const handleRenewFailed = (event: AuthEvent<'renewFailed'>) => {
+      setRenewError(event.payload.error);
+      setExpiryStatus('expiring');
     };
 
     // Event handler: Access token expired
@@ -128,54 +213,120 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     // عندما ينتهي الرمز المميز، امسح حالة المستخدم (سيؤدي إلى تسجيل الخروج)
     const handleAccessTokenExpired = () => {
       setUser(null);
+      setExpiryStatus('expired');
     };
 
     // Register event listeners
     // تسجيل مستمعي الأحداث
-    userManager.events.addUserLoaded(handleUserLoaded);
-    userManager.events.addUserUnloaded(handleUserUnloaded);
-    userManager.events.addAccessTokenExpired(handleAccessTokenExpired);
+    userManagers.forEach((userManager, index) => {
+      userManager.events.addUserLoaded(handleUserLoaded);
+      userManager.events.addUserUnloaded(userUnloadedHandlers[index]);
+      userManager.events.addAccessTokenExpired(handleAccessTokenExpired);
+    });
+    // Every AuthService event drives the status state machine / كل حدث من AuthService يحرك آلة الحالة
+    const unsubscribeStatus = authService.events.subscribe(dispatch);
+    const unsubscribeTokenExpiring = authService.events.on('tokenExpiring', handleTokenExpiring);
+    const unsubscribeRenewFailed = authService.events.on('renewFailed', handleRenewFailed);
+    const unsubscribeSessionChanged = authService.events.on('sessionChanged', handleSessionChanged);
 
     // Cleanup: Remove event listeners when component unmounts
     // التنظيف: إزالة مستمعي الأحداث عندما يتم إلغاء تحميل المكون
     return () => {
-      userManager.events.removeUserLoaded(handleUserLoaded);
-      userManager.events.removeUserUnloaded(handleUserUnloaded);
-      userManager.events.removeAccessTokenExpired(handleAccessTokenExpired);
+      userManagers.forEach((userManager, index) => {
+        userManager.events.removeUserLoaded(handleUserLoaded);
+        userManager.events.removeUserUnloaded(userUnloadedHandlers[index]);
+        userManager.events.removeAccessTokenExpired(handleAccessTokenExpired);
+      });
+      unsubscribeStatus();
+      unsubscribeTokenExpiring();
+      unsubscribeRenewFailed();
+      unsubscribeSessionChanged();
     };
-  }, []);
+  }, [authService]);
 
   /**
    * Login Function
-   * Initiates OIDC login flow (redirects to Identity Server)
+   * Initiates OIDC login flow (redirects to Identity Server, or opens a popup with { mode: 'popup' })
    * 
    * وظيفة تسجيل الدخول
-   * يبدأ تدفق تسجيل الدخول OIDC (يعيد التوجيه إلى خادم الهوية)
+   * يبدأ تدفق تسجيل الدخول OIDC (يعيد التوجيه إلى خادم الهوية، أو يفتح نافذة منبثقة مع { mode: 'popup' })
    */
-  const login = async () => {
-    await authService.login();
+  const login = async (options?: LoginOptions) => {
+    await authService.login(options);
   };
 
   /**
    * Logout Function
-   * Initiates OIDC logout flow (redirects to Identity Server)
+   * Global (default): initiates OIDC logout flow (redirects to Identity Server)
+   * Local ({ scope: 'local' }): clears tokens and shows the "signed out" page without a redirect
    * 
    * وظيفة تسجيل الخروج
-   * يبدأ تدفق تسجيل الخروج OIDC (يعيد التوجيه إلى خادم الهوية)
+   * عام (الافتراضي): يبدأ تدفق تسجيل الخروج OIDC (يعيد التوجيه إلى خادم الهوية)
+   * محلي ({ scope: 'local' }): يمسح الرموز ويعرض صفحة "تم تسجيل الخروج" دون إعادة توجيه
    */
-  const logout = async () => {
-    await authService.logout();
+  const logout = async (options?: LogoutOptions) => {
+    await authService.logout(options);
+    if (options?.scope === 'local') {
+      const state: SignedOutLocationState = { reason: options.reason };
+      navigate('/signed-out', { replace: true, state });
+    }
   };
 
   /**
    * Get Access Token Function
-   * Returns the current access token for API calls
+   * Returns the current access token for API calls - { scopes } for one API only
    * 
    * وظيفة الحصول على رمز الوصول
-   * يعيد رمز الوصول الحالي لاستدعاءات API
+   * يعيد رمز الوصول الحالي لاستدعاءات API - { scopes } لـ API واحد فقط
+   */
+  const getAccessToken = async (options?: AccessTokenOptions) => {
+    return await authService.getAccessToken(options);
+  };
+
+  /**
+   * Request Scopes Function
+   * Asks for consent to the scopes of a ConsentRequiredError - call it from a click,
+   * browsers block the popup otherwise (null = redirecting)
+   * 
+   * وظيفة طلب النطاقات
+   * يطلب الموافقة على نطاقات ConsentRequiredError - استدعها من نقرة،
+   * وإلا تحظر المتصفحات النافذة المنبثقة (null = جارٍ إعادة التوجيه)
+   */
+  const requestScopes = async (scopes: string[]) => {
+    return await authService.requestScopes(scopes);
+  };
+
+  /**
+   * Renew Session Function
+   * Silently renews tokens - userLoaded then resets expiryStatus to 'active'
+   * 
+   * وظيفة تجديد الجلسة
+   * يجدد الرموز بصمت - ثم يعيد userLoaded حالة expiryStatus إلى 'active'
+   */
+  const renewSession = async () => {
+    await authService.renewToken();
+  };
+
+  /**
+   * Revalidate Session Function
+   * Re-checks the Identity Server session - signs out locally if it is gone
+   * 
+   * وظيفة إعادة التحقق من الجلسة
+   * يعيد فحص جلسة خادم الهوية - يسجل الخروج محلياً إذا انتهت
+   */
+  const revalidateSession = async () => {
+    await authService.revalidateSession();
+  };
+
+  /**
+   * Require Recent Auth Function
+   * Re-authenticates unless the user signed in recently enough (null = redirecting)
+   * 
+   * وظيفة طلب مصادقة حديثة
+   * يعيد المصادقة ما لم يكن المستخدم قد سجل الدخول مؤخراً بما يكفي (null = جارٍ إعادة التوجيه)
    */
-  const getAccessToken = async () => {
-    return await authService.getAccessToken();
+  const requireRecentAuth = async (options?: RecentAuthOptions) => {
+    return await authService.requireRecentAuth(options);
   };
 
   // Context value - what gets provided to all child components
@@ -183,13 +334,26 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const value: AuthContextType = {
     user,
     isAuthenticated: user !== null && !user.expired, // User exists and token not expired / المستخدم موجود والرمز المميز لم ينته
-    isLoading,
+    isLoading: authState.status === 'initializing',
+    status: authState.status,
+    error: authState.error,
     login,
     logout,
     getAccessToken,
+    requestScopes,
+    expiryStatus,
+    renewSession,
+    renewError,
+    sessionChange,
+    revalidateSession,
+    requireRecentAuth,
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthServiceContext.Provider value={authService}>
+      <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+    </AuthServiceContext.Provider>
+  );
 };
 
 /**
@@ -208,3 +372,36 @@ export const useAuth = (): AuthContextType => {
   }
   return context;
 };
+
+/**
+ * useAuthService Hook
+ * The AuthService instance given to AuthProvider - for callbacks, events and providers
+ * Must be used within AuthProvider
+ * 
+ * Hook useAuthService
+ * مثيل AuthService المعطى لـ AuthProvider - للاستدعاءات والأحداث والموفرين
+ * يجب استخدامه داخل AuthProvider
+ */
+export const useAuthService = (): AuthService => {
+  const authService = useContext(AuthServiceContext);
+  if (authService === undefined) {
+    throw new Error('useAuthService must be used within an AuthProvider');
+  }
+  return authService;
+};
+
+/**
+ * useApiClient Hook
+ * Axios client of a configured API (Calc API by default) that gets its tokens
+ * from the AuthService given to AuthProvider
+ * Must be used within AuthProvider
+ * 
+ * Hook useApiClient
+ * عميل axios لواجهة API محددة (Calc API افتراضياً) يحصل على رموزه
+ * من AuthService المعطى لـ AuthProvider
+ * يجب استخدامه داخل AuthProvider
+ */
+export const useApiClient = (id: string = PRIMARY_API_ID): AxiosInstance => {
+  const authService = useAuthService();
+  return useMemo(() => getApiClient(id, authService), [id, authService]);
+};
@@ -0,0 +1,172 @@
+/**
+ * ============================================================================
+ * IDLE CONTEXT PROVIDER - IdleContext.tsx
+ * ============================================================================
+ *
+ * This component signs the user out after a period without interaction,
+ * whatever the token lifetime is (security policy requirement).
+ * Activity is shared between tabs through localStorage, so working in one tab
+ * keeps every tab alive.
+ *
+ * مكون موفر سياق الخمول - IdleContext.tsx
+ * يسجل هذا المكون خروج المستخدم بعد فترة دون تفاعل،
+ * بغض النظر عن عمر الرمز المميز (متطلب سياسة الأمان).
+ * تتم مشاركة النشاط بين التبويبات عبر localStorage، لذا فإن العمل في تبويب واحد
+ * يبقي جميع التبويبات نشطة.
+ *
+ * ============================================================================
+ * FLOW:
+ * 1. User is authenticated → IdleProvider starts listening to activity events
+ * 2. Every activity → last activity time saved (throttled) to localStorage
+ * 3. Every second → idle time = now - latest activity (from any tab)
+ * 4. Idle time reaches (timeout - warningSeconds) → isWarning = true (IdleWarningDialog)
+ * 5. Idle time reaches timeout → authService.logout() or authService.removeUser()
+ *
+ * التدفق:
+ * 1. المستخدم مصادق عليه → IdleProvider يبدأ الاستماع إلى أحداث النشاط
+ * 2. كل نشاط → يتم حفظ وقت آخر نشاط (بشكل محدود) في localStorage
+ * 3. كل ثانية → وقت الخمول = الآن - آخر نشاط (من أي تبويب)
+ * 4. وقت الخمول يصل إلى (المهلة - ثواني التحذير) → isWarning = true (IdleWarningDialog)
+ * 5. وقت الخمول يصل إلى المهلة → authService.logout() أو authService.removeUser()
+ * ============================================================================
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { getAppConfig, IdlePolicy } from '../config/appConfig';
+import { useAuth, useAuthService } from './AuthContext';
+
+/**
+ * IdleContext Type Definition
+ *
+ * تعريف نوع IdleContext
+ */
+interface IdleContextType {
+  isEnabled: boolean;           // Whether the idle policy is active / ما إذا كانت سياسة الخمول نشطة
+  isWarning: boolean;           // Cutoff is close - warning should be shown / الانقطاع قريب - يجب عرض التحذير
+  secondsRemaining: number;     // Seconds until sign-out / الثواني حتى تسجيل الخروج
+  reset: () => void;            // Record activity ("I'm still here") / تسجيل النشاط ("ما زلت هنا")
+}
+
+const IdleContext = createContext<IdleContextType | undefined>(undefined);
+
+interface IdleProviderProps {
+  children: ReactNode;
+  policy?: IdlePolicy;          // Defaults to the policy from runtime config / الافتراضي هو السياسة من التكوين
+}
+
+const LAST_ACTIVITY_KEY = 'calc-auth-last-activity';
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart', 'wheel'];
+
+// Write activity to localStorage at most once every 5 seconds
+// كتابة النشاط في localStorage مرة واحدة كل 5 ثوانٍ كحد أقصى
+const ACTIVITY_WRITE_INTERVAL_MS = 5000;
+
+/**
+ * Read Shared Activity
+ * Latest activity time recorded by any tab
+ *
+ * قراءة النشاط المشترك
+ * آخر وقت نشاط سجله أي تبويب
+ */
+const readSharedActivity = (): number => {
+  const value = Number(window.localStorage.getItem(LAST_ACTIVITY_KEY));
+  return Number.isFinite(value) ? value : 0;
+};
+
+/**
+ * IdleProvider Component
+ * Must be rendered inside AuthProvider
+ *
+ * مكون IdleProvider
+ * يجب عرضه داخل AuthProvider
+ */
+export const IdleProvider: React.FC<IdleProviderProps> = ({ children, policy = getAppConfig().idle }) => {
+  const { isAuthenticated } = useAuth();
+  const authService = useAuthService();
+  const timeoutSeconds = policy.timeoutMinutes * 60;
+  const isEnabled = isAuthenticated && timeoutSeconds > 0;
+
+  const lastActivity = useRef(Date.now());
+  const lastWrite = useRef(0);
+  const [secondsRemaining, setSecondsRemaining] = useState(timeoutSeconds);
+
+  /**
+   * Record Activity
+   * Updates local activity time and shares it with other tabs (throttled)
+   *
+   * تسجيل النشاط
+   * يحدث وقت النشاط المحلي ويشاركه مع التبويبات الأخرى (بشكل محدود)
+   */
+  const recordActivity = useCallback((force = false) => {
+    const now = Date.now();
+    lastActivity.current = now;
+
+    if (force || now - lastWrite.current >= ACTIVITY_WRITE_INTERVAL_MS) {
+      lastWrite.current = now;
+      window.localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    recordActivity(true);
+    setSecondsRemaining(timeoutSeconds);
+  }, [recordActivity, timeoutSeconds]);
+
+  useEffect(() => {
+    if (!isEnabled) {
+      return;
+    }
+
+    reset();
+    const handleActivity = () => recordActivity();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+
+    // Check idle time every second, using the latest activity from any tab
+    // التحقق من وقت الخمول كل ثانية، باستخدام آخر نشاط من أي تبويب
+    const interval = setInterval(() => {
+      const latest = Math.max(lastActivity.current, readSharedActivity());
+      const remaining = Math.max(0, Math.ceil(timeoutSeconds - (Date.now() - latest) / 1000));
+      setSecondsRemaining(remaining);
+
+      if (remaining === 0) {
+        clearInterval(interval);
+        console.log(`User idle for ${policy.timeoutMinutes} minutes - signing out`);
+        const signOut = policy.action === 'logout'
+          ? authService.logout({ reason: 'idle' })
+          : authService.removeUser({ reason: 'idle' });
+        signOut.catch((error) => console.error('Error signing out idle user:', error));
+      }
+    }, 1000);
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+    };
+  }, [isEnabled, policy, timeoutSeconds, recordActivity, reset, authService]);
+
+  const value: IdleContextType = {
+    isEnabled,
+    isWarning: isEnabled && secondsRemaining <= policy.warningSeconds,
+    secondsRemaining,
+    reset,
+  };
+
+  return <IdleContext.Provider value={value}>{children}</IdleContext.Provider>;
+};
+
+/**
+ * useIdle Hook
+ * Custom hook to access idle state
+ * Must be used within IdleProvider
+ *
+ * Hook useIdle
+ * Hook مخصص للوصول إلى حالة الخمول
+ * يجب استخدامه داخل IdleProvider
+ */
+export const useIdle = (): IdleContextType => {
+  const context = useContext(IdleContext);
+  if (context === undefined) {
+    throw new Error('useIdle must be used within an IdleProvider');
+  }
+  return context;
+};
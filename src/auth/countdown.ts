@@ -0,0 +1,39 @@
+/**
+ * ============================================================================
+ * COUNTDOWN HELPERS - countdown.ts
+ * ============================================================================
+ *
+ * Shared helpers for the session countdowns (token expiry, idle timeout).
+ *
+ * مساعدات العد التنازلي - countdown.ts
+ * مساعدات مشتركة للعد التنازلي للجلسة (انتهاء الرمز المميز، مهلة الخمول).
+ *
+ * ============================================================================
+ */
+
+/**
+ * Get Seconds Until
+ * Seconds until an epoch-seconds timestamp (e.g. user.expires_at), never negative
+ *
+ * الحصول على الثواني المتبقية
+ * الثواني حتى طابع زمني بثواني epoch (مثل user.expires_at)، ليست سالبة أبداً
+ */
+export const getSecondsUntil = (epochSeconds: number | undefined): number => {
+  if (!epochSeconds) {
+    return 0;
+  }
+  return Math.max(0, Math.floor(epochSeconds - Date.now() / 1000));
+};
+
+/**
+ * Format Countdown
+ * Formats seconds as m:ss
+ *
+ * تنسيق العد التنازلي
+ * ينسق الثواني بصيغة m:ss
+ */
+export const formatCountdown = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes}:${rest.toString().padStart(2, '0')}`;
+};
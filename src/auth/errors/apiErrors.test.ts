@@ -0,0 +1,105 @@
+import { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import {
+  ApiAuthorizationError,
+  ApiBusinessError,
+  ApiError,
+  ApiNotFoundError,
+  ApiRateLimitError,
+  ApiTimeoutError,
+  ApiValidationError,
+  GENERAL_VALIDATION_ERRORS,
+  RemoteServiceErrorInfo,
+  toApiError,
+} from './apiErrors';
+
+const config = { headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+
+const createError = (status: number, data: unknown, headers: Record<string, string> = {}): AxiosError =>
+  new AxiosError('Request failed', AxiosError.ERR_BAD_REQUEST, config, {}, {
+    status,
+    statusText: '',
+    headers,
+    data,
+    config,
+  } as AxiosResponse);
+
+const abpError = (status: number, error: RemoteServiceErrorInfo): AxiosError => createError(status, { error });
+
+describe('toApiError', () => {
+  it('groups validation errors per member', () => {
+    const error = toApiError(abpError(400, {
+      message: 'Your request is not valid!',
+      validationErrors: [
+        { message: 'The Name field is required.', members: ['name'] },
+        { message: 'Name is too long.', members: ['name'] },
+        { message: 'Start must be before end.', members: ['start', 'end'] },
+        { message: 'Something is off.' },
+      ],
+    }));
+
+    expect(error).toBeInstanceOf(ApiValidationError);
+    expect((error as ApiValidationError).validationErrors).toEqual({
+      name: ['The Name field is required.', 'Name is too long.'],
+      start: ['Start must be before end.'],
+      end: ['Start must be before end.'],
+      [GENERAL_VALIDATION_ERRORS]: ['Something is off.'],
+    });
+  });
+
+  it('keeps the ABP fields and the original error', () => {
+    const cause = abpError(403, { code: 'Calc:010001', message: 'Reason is in use', details: 'Used by 3 cases', data: { count: 3 } });
+    const error = toApiError(cause) as ApiBusinessError;
+
+    expect(error).toBeInstanceOf(ApiBusinessError);
+    expect(error.kind).toBe('business');
+    expect(error.status).toBe(403);
+    expect(error.code).toBe('Calc:010001');
+    expect(error.message).toBe('Reason is in use');
+    expect(error.details).toBe('Used by 3 cases');
+    expect(error.data).toEqual({ count: 3 });
+    expect(error.cause).toBe(cause);
+  });
+
+  it('classifies 404 as not found and 401 / 403 as authorization', () => {
+    expect(toApiError(abpError(404, { message: 'There is no entity Reason with id = 7!' }))).toBeInstanceOf(ApiNotFoundError);
+    expect(toApiError(abpError(401, { message: 'Unauthorized' }))).toBeInstanceOf(ApiAuthorizationError);
+    expect(toApiError(abpError(403, {}))).toBeInstanceOf(ApiAuthorizationError);
+    expect(toApiError(abpError(403, { code: 'Volo.Authorization:010001' }))).toBeInstanceOf(ApiAuthorizationError);
+  });
+
+  it('uses a default message when ABP sends none', () => {
+    expect(toApiError(abpError(404, {})).message).toBe('The requested item could not be found.');
+  });
+
+  it('returns other ABP errors as unknown', () => {
+    const error = toApiError(abpError(500, { message: 'An internal error occurred during your request!' }));
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).kind).toBe('unknown');
+  });
+
+  it('classifies 429 as rate limited, with its Retry-After', () => {
+    const error = toApiError(createError(429, '', { 'retry-after': '60' })) as ApiRateLimitError;
+
+    expect(error).toBeInstanceOf(ApiRateLimitError);
+    expect(error.kind).toBe('rateLimited');
+    expect(error.retryAfterMs).toBe(60000);
+    expect(toApiError(abpError(429, { message: 'Slow down' })).message).toBe('Slow down');
+  });
+
+  it('classifies timeouts', () => {
+    const error = toApiError(new AxiosError('timeout of 100ms exceeded', AxiosError.ETIMEDOUT, config));
+
+    expect(error).toBeInstanceOf(ApiTimeoutError);
+    expect((error as ApiTimeoutError).kind).toBe('timeout');
+    expect(toApiError(new AxiosError('timeout of 100ms exceeded', AxiosError.ECONNABORTED, config))).toBeInstanceOf(ApiTimeoutError);
+  });
+
+  it('passes on errors without an ABP error body', () => {
+    const gatewayError = createError(502, '<html>Bad Gateway</html>');
+    const networkError = new AxiosError('Network Error', AxiosError.ERR_NETWORK, config);
+
+    expect(toApiError(gatewayError)).toBe(gatewayError);
+    expect(toApiError(networkError)).toBe(networkError);
+    expect(toApiError(createError(500, { error: null }))).not.toBeInstanceOf(ApiError);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * ============================================================================
+ * API ERROR MODEL - apiErrors.ts
+ * ============================================================================
+ *
+ * This file turns ABP error responses (RemoteServiceErrorResponse) of the Calc
+ * API and the other APIs into typed errors, so screens can show and map
+ * failures the same way everywhere instead of digging into raw AxiosErrors.
+ * ABP localizes error.message with the browser's Accept-Language; a default
+ * message is used when the response has none.
+ *
+ * نموذج أخطاء API - apiErrors.ts
+ * يحول هذا الملف استجابات خطأ ABP (RemoteServiceErrorResponse) من Calc API
+ * وواجهات API الأخرى إلى أخطاء مكتوبة، حتى تتمكن الشاشات من عرض الأعطال
+ * ومعالجتها بنفس الطريقة في كل مكان بدلاً من البحث في AxiosError الخام.
+ * يقوم ABP بترجمة error.message حسب Accept-Language للمتصفح؛ وتُستخدم
+ * رسالة افتراضية عندما لا تحتوي الاستجابة على رسالة.
+ *
+ * ============================================================================
+ * KINDS:
+ * - business: BusinessException / UserFriendlyException with an error code (e.g. "Calc:010001")
+ * - validation: invalid input (400) - validationErrors lists the messages per member
+ * - authorization: not signed in (401) or not allowed (403 without a business code)
+ * - notFound: EntityNotFoundException (404)
+ * - rateLimited: 429 still failing after the retries (or Retry-After longer than retry.maxDelayMs)
+ * - timeout: no response within retry.timeoutMs, after the retries
+ * - unknown: any other ABP error (e.g. 500 "An internal error occurred")
+ *
+ * Other responses without the ABP error body (network errors, gateway errors)
+ * are passed on as the original AxiosError.
+ *
+ * الأنواع:
+ * - business: BusinessException / UserFriendlyException مع رمز خطأ (مثل "Calc:010001")
+ * - validation: مدخلات غير صالحة (400) - validationErrors يسرد الرسائل لكل عضو
+ * - authorization: غير مسجل الدخول (401) أو غير مسموح (403 بدون رمز عمل)
+ * - notFound: EntityNotFoundException (404)
+ * - rateLimited: 429 لا يزال يفشل بعد إعادة المحاولات (أو Retry-After أطول من retry.maxDelayMs)
+ * - timeout: لا استجابة خلال retry.timeoutMs، بعد إعادة المحاولات
+ * - unknown: أي خطأ ABP آخر (مثل 500 "حدث خطأ داخلي")
+ *
+ * الاستجابات الأخرى بدون جسم خطأ ABP (أخطاء الشبكة، أخطاء البوابة) يتم تمريرها
+ * كـ AxiosError الأصلي.
+ * ============================================================================
+ */
+
+import { AxiosError } from 'axios';
+import { isTimeoutError, parseRetryAfter } from '../retryPolicy';
+
+export type ApiErrorKind =
+  | 'business'
+  | 'validation'
+  | 'authorization'
+  | 'notFound'
+  | 'rateLimited'
+  | 'timeout'
+  | 'unknown';
+
+/**
+ * Remote Service Error Response
+ * Error body returned by ABP application services
+ *
+ * استجابة خطأ الخدمة البعيدة
+ * جسم الخطأ الذي تعيده خدمات تطبيق ABP
+ */
+export interface RemoteServiceValidationErrorInfo {
+  message: string;
+  members?: string[] | null;
+}
+
+export interface RemoteServiceErrorInfo {
+  code?: string | null;
+  message?: string | null;
+  details?: string | null;
+  data?: Record<string, unknown> | null;
+  validationErrors?: RemoteServiceValidationErrorInfo[] | null;
+}
+
+export interface RemoteServiceErrorResponse {
+  error: RemoteServiceErrorInfo;
+}
+
+// Key of validation errors that are not about one member / مفتاح أخطاء التحقق التي لا تخص عضواً واحداً
+export const GENERAL_VALIDATION_ERRORS = '';
+
+// ABP codes of authorization failures (403 is also used for business exceptions)
+// رموز ABP لأعطال التفويض (يُستخدم 403 أيضاً لاستثناءات العمل)
+const AUTHORIZATION_CODE_PREFIX = 'Volo.Authorization:';
+
+/**
+ * ApiError Class
+ * Base class of the model - message is the localized text to show,
+ * cause keeps the original AxiosError for logs
+ *
+ * فئة ApiError
+ * الفئة الأساسية للنموذج - message هو النص المترجم للعرض،
+ * cause يحتفظ بـ AxiosError الأصلي للسجلات
+ */
+export class ApiError extends Error {
+  public readonly kind: ApiErrorKind;
+  public readonly status: number;
+  public readonly code: string | null;
+  public readonly details: string | null;
+  public readonly data: Record<string, unknown>;
+  public readonly cause: unknown;
+
+  constructor(kind: ApiErrorKind, status: number, info: RemoteServiceErrorInfo, defaultMessage: string, cause?: unknown) {
+    super(info.message || defaultMessage);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.code = info.code || null;
+    this.details = info.details || null;
+    this.data = info.data ?? {};
+    this.cause = cause;
+  }
+}
+
+export class ApiBusinessError extends ApiError {
+  public readonly code: string;
+
+  constructor(status: number, info: RemoteServiceErrorInfo & { code: string }, cause?: unknown) {
+    super('business', status, info, 'The request could not be completed.', cause);
+    this.name = 'ApiBusinessError';
+    this.code = info.code;
+  }
+}
+
+export class ApiValidationError extends ApiError {
+  // Messages per member name - GENERAL_VALIDATION_ERRORS for the request as a whole
+  // الرسائل لكل اسم عضو - GENERAL_VALIDATION_ERRORS للطلب ككل
+  public readonly validationErrors: Record<string, string[]>;
+
+  constructor(status: number, info: RemoteServiceErrorInfo, cause?: unknown) {
+    super('validation', status, info, 'Some of the entered values are not valid.', cause);
+    this.name = 'ApiValidationError';
+    this.validationErrors = groupValidationErrors(info.validationErrors ?? []);
+  }
+}
+
+export class ApiAuthorizationError extends ApiError {
+  constructor(status: number, info: RemoteServiceErrorInfo, cause?: unknown) {
+    super('authorization', status, info, 'You are not allowed to perform this action.', cause);
+    this.name = 'ApiAuthorizationError';
+  }
+}
+
+export class ApiNotFoundError extends ApiError {
+  constructor(status: number, info: RemoteServiceErrorInfo, cause?: unknown) {
+    super('notFound', status, info, 'The requested item could not be found.', cause);
+    this.name = 'ApiNotFoundError';
+  }
+}
+
+export class ApiRateLimitError extends ApiError {
+  // From Retry-After - null when the API did not say / من Retry-After - null عندما لم تحدده واجهة API
+  public readonly retryAfterMs: number | null;
+
+  constructor(info: RemoteServiceErrorInfo, retryAfterMs: number | null, cause?: unknown) {
+    super('rateLimited', 429, info, 'Too many requests. Please wait a moment and try again.', cause);
+    this.name = 'ApiRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ApiTimeoutError extends ApiError {
+  // status 0: no response was received / status 0: لم يتم استلام أي استجابة
+  constructor(cause?: unknown) {
+    super('timeout', 0, {}, 'The server took too long to respond. Please try again.', cause);
+    this.name = 'ApiTimeoutError';
+  }
+}
+
+/**
+ * Group Validation Errors
+ * ABP lists each message with the members it is about - grouped here per member
+ *
+ * تجميع أخطاء التحقق
+ * يسرد ABP كل رسالة مع الأعضاء المعنيين بها - يتم تجميعها هنا لكل عضو
+ */
+const groupValidationErrors = (errors: RemoteServiceValidationErrorInfo[]): Record<string, string[]> => {
+  const grouped: Record<string, string[]> = {};
+  errors.forEach(({ message, members }) => {
+    const names = members && members.length > 0 ? members : [GENERAL_VALIDATION_ERRORS];
+    names.forEach((name) => {
+      grouped[name] = [...(grouped[name] ?? []), message];
+    });
+  });
+  return grouped;
+};
+
+/**
+ * Is Remote Service Error Response
+ * True for a body in ABP's error format ({ error: { message, ... } })
+ *
+ * هل هي استجابة خطأ خدمة بعيدة
+ * صحيح لجسم بتنسيق خطأ ABP ({ error: { message, ... } })
+ */
+const isRemoteServiceErrorResponse = (body: unknown): body is RemoteServiceErrorResponse =>
+  typeof body === 'object' &&
+  body !== null &&
+  typeof (body as RemoteServiceErrorResponse).error === 'object' &&
+  (body as RemoteServiceErrorResponse).error !== null;
+
+/**
+ * To Api Error
+ * Classifies an ABP error response, a timeout or a 429 - any other error is returned unchanged
+ *
+ * التحويل إلى خطأ API
+ * يصنف استجابة خطأ ABP أو انتهاء المهلة أو 429 - أي خطأ آخر يتم إرجاعه دون تغيير
+ */
+export const toApiError = (error: AxiosError): ApiError | AxiosError => {
+  if (!error.response && isTimeoutError(error)) {
+    return new ApiTimeoutError(error);
+  }
+
+  const body = error.response?.data;
+  if (error.response?.status === 429) {
+    const info = isRemoteServiceErrorResponse(body) ? body.error : {};
+    return new ApiRateLimitError(info, parseRetryAfter(error.response.headers['retry-after']), error);
+  }
+  if (!error.response || !isRemoteServiceErrorResponse(body)) {
+    return error;
+  }
+
+  const { status } = error.response;
+  const info = body.error;
+  const code = info.code;
+
+  if (info.validationErrors && info.validationErrors.length > 0) {
+    return new ApiValidationError(status, info, error);
+  }
+  if (status === 404) {
+    return new ApiNotFoundError(status, info, error);
+  }
+  if (status === 401 || (status === 403 && (!code || code.startsWith(AUTHORIZATION_CODE_PREFIX)))) {
+    return new ApiAuthorizationError(status, info, error);
+  }
+  if (code) {
+    return new ApiBusinessError(status, { ...info, code }, error);
+  }
+  return new ApiError('unknown', status, info, 'An error occurred while processing your request.', error);
+};
@@ -0,0 +1,72 @@
+import { ErrorResponse, ErrorTimeout, IdTokenClaims, User } from 'oidc-client-ts';
+import {
+  AccessDeniedError,
+  AuthError,
+  AuthNetworkError,
+  ExpiredCodeError,
+  getClockSkewSeconds,
+  StateMismatchError,
+  toAuthError,
+} from './authErrors';
+
+describe('toAuthError', () => {
+  it('returns an AuthError unchanged', () => {
+    const error = new AuthError('unknown', 'Sign in failed');
+    expect(toAuthError(error)).toBe(error);
+  });
+
+  it('maps access_denied with the description from Identity Server', () => {
+    const response = new ErrorResponse({ error: 'access_denied', error_description: 'The user is locked out.' });
+    const error = toAuthError(response);
+
+    expect(error).toBeInstanceOf(AccessDeniedError);
+    expect(error.message).toBe('The user is locked out.');
+    expect(error.cause).toBe(response);
+  });
+
+  it('maps invalid_grant to an expired code', () => {
+    expect(toAuthError(new ErrorResponse({ error: 'invalid_grant' }))).toBeInstanceOf(ExpiredCodeError);
+  });
+
+  it('maps a missing or used state to a state mismatch', () => {
+    expect(toAuthError(new Error('No matching state found in storage'))).toBeInstanceOf(StateMismatchError);
+  });
+
+  it('maps failed requests and timeouts to network errors', () => {
+    expect(toAuthError(new TypeError('Failed to fetch'))).toBeInstanceOf(AuthNetworkError);
+    expect(toAuthError(new TypeError('NetworkError when attempting to fetch resource.'))).toBeInstanceOf(AuthNetworkError);
+    expect(toAuthError(new ErrorTimeout('IFrame timed out without a response'))).toBeInstanceOf(AuthNetworkError);
+  });
+
+  it('does not take other type errors for network errors', () => {
+    expect(toAuthError(new TypeError("Cannot read properties of undefined (reading 'profile')")).kind).toBe('unknown');
+  });
+
+  it('keeps the message of any other error', () => {
+    const error = toAuthError('Something went wrong');
+    expect(error.kind).toBe('unknown');
+    expect(error.message).toBe('Something went wrong');
+  });
+
+  it('gives every error its own diagnostic id', () => {
+    const first = toAuthError(new Error('one'));
+    const second = toAuthError(new Error('one'));
+
+    expect(first.diagnosticId).toMatch(/^AUTH-[0-9A-Z]+-[0-9A-Z]+$/);
+    expect(second.diagnosticId).not.toBe(first.diagnosticId);
+  });
+});
+
+describe('getClockSkewSeconds', () => {
+  const createUser = (iat?: number): User =>
+    new User({ access_token: 'access-token', token_type: 'Bearer', profile: { sub: 'user-1', iat } as IdTokenClaims });
+
+  it('is positive when the device clock is behind the token', () => {
+    const now = Math.floor(Date.now() / 1000);
+    expect(getClockSkewSeconds(createUser(now + 600))).toBeGreaterThanOrEqual(599);
+  });
+
+  it('is 0 without an iat', () => {
+    expect(getClockSkewSeconds(createUser())).toBe(0);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * ============================================================================
+ * AUTH ERROR TAXONOMY - authErrors.ts
+ * ============================================================================
+ *
+ * This file turns the raw errors thrown while completing a login (oidc-client-ts
+ * errors, Identity Server error responses, fetch failures) into typed errors,
+ * so the UI can offer the right recovery and support can trace the failure
+ * with its diagnostic ID.
+ *
+ * تصنيف أخطاء المصادقة - authErrors.ts
+ * يحول هذا الملف الأخطاء الخام التي يتم رميها أثناء إكمال تسجيل الدخول (أخطاء
+ * oidc-client-ts، استجابات خطأ خادم الهوية، فشل fetch) إلى أخطاء مكتوبة،
+ * حتى تتمكن الواجهة من تقديم الاستعادة المناسبة ويتمكن الدعم من تتبع الفشل
+ * بمعرف التشخيص الخاص به.
+ *
+ * ============================================================================
+ * KINDS:
+ * - accessDenied: Identity Server returned error=access_denied (user declined / not allowed)
+ * - stateMismatch: callback state not found or already used (stale link, back button, other tab)
+ * - expiredCode: authorization code expired or already redeemed (invalid_grant)
+ * - network: Identity Server could not be reached
+ * - clockSkew: this device's clock is too far from Identity Server's clock
+ * - stepUp: the re-authentication did not meet the required max age / acr (recentAuth.ts)
+ * - consentRequired: an API needs scopes the user has not consented to yet (apiTokens.ts)
+ * - unknown: anything else
+ *
+ * الأنواع:
+ * - accessDenied: أعاد خادم الهوية error=access_denied (رفض المستخدم / غير مسموح)
+ * - stateMismatch: حالة الاستدعاء غير موجودة أو مستخدمة بالفعل (رابط قديم، زر الرجوع، تبويب آخر)
+ * - expiredCode: انتهت صلاحية رمز التفويض أو تم استبداله بالفعل (invalid_grant)
+ * - network: تعذر الوصول إلى خادم الهوية
+ * - clockSkew: ساعة هذا الجهاز بعيدة جداً عن ساعة خادم الهوية
+ * - stepUp: إعادة المصادقة لم تستوفِ العمر الأقصى / acr المطلوب (recentAuth.ts)
+ * - consentRequired: يحتاج API إلى نطاقات لم يوافق عليها المستخدم بعد (apiTokens.ts)
+ * - unknown: أي شيء آخر
+ * ============================================================================
+ */
+
+import { ErrorResponse, ErrorTimeout, User } from 'oidc-client-ts';
+
+export type AuthErrorKind =
+  | 'accessDenied'
+  | 'stateMismatch'
+  | 'expiredCode'
+  | 'network'
+  | 'clockSkew'
+  | 'stepUp'
+  | 'consentRequired'
+  | 'unknown';
+
+// Largest accepted difference between the token's iat and this device's clock
+// أكبر فرق مقبول بين iat الخاص بالرمز المميز وساعة هذا الجهاز
+export const MAX_CLOCK_SKEW_SECONDS = 300;
+
+/**
+ * Create Diagnostic ID
+ * Short unique ID shown to the user and logged with the error, e.g. "AUTH-LX2K9F-3QZT"
+ *
+ * إنشاء معرف التشخيص
+ * معرف فريد قصير يُعرض للمستخدم ويُسجل مع الخطأ، مثل "AUTH-LX2K9F-3QZT"
+ */
+const createDiagnosticId = (): string => {
+  const time = Date.now().toString(36).toUpperCase();
+  const random = Math.random().toString(36).slice(2, 6).toUpperCase();
+  return `AUTH-${time}-${random}`;
+};
+
+/**
+ * AuthError Class
+ * Base class of the taxonomy - kind drives the recovery screen,
+ * cause keeps the original error for logs
+ *
+ * فئة AuthError
+ * الفئة الأساسية للتصنيف - kind يحدد شاشة الاستعادة،
+ * cause يحتفظ بالخطأ الأصلي للسجلات
+ */
+export class AuthError extends Error {
+  public readonly kind: AuthErrorKind;
+  public readonly diagnosticId = createDiagnosticId();
+  public readonly cause: unknown;
+
+  constructor(kind: AuthErrorKind, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'AuthError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+}
+
+export class AccessDeniedError extends AuthError {
+  constructor(message = 'Access to the application was denied by the identity server.', cause?: unknown) {
+    super('accessDenied', message, cause);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+export class StateMismatchError extends AuthError {
+  constructor(message = 'This sign-in link is no longer valid.', cause?: unknown) {
+    super('stateMismatch', message, cause);
+    this.name = 'StateMismatchError';
+  }
+}
+
+export class ExpiredCodeError extends AuthError {
+  constructor(message = 'The sign-in took too long and has expired.', cause?: unknown) {
+    super('expiredCode', message, cause);
+    this.name = 'ExpiredCodeError';
+  }
+}
+
+export class AuthNetworkError extends AuthError {
+  constructor(message = 'The identity server could not be reached.', cause?: unknown) {
+    super('network', message, cause);
+    this.name = 'AuthNetworkError';
+  }
+}
+
+export class ClockSkewError extends AuthError {
+  public readonly skewSeconds: number;
+
+  constructor(skewSeconds: number, cause?: unknown) {
+    super('clockSkew', `This device's clock is off by about ${Math.round(Math.abs(skewSeconds) / 60)} minutes.`, cause);
+    this.name = 'ClockSkewError';
+    this.skewSeconds = skewSeconds;
+  }
+}
+
+export class StepUpError extends AuthError {
+  constructor(message = 'The sign-in did not meet the security requirements of this action.', cause?: unknown) {
+    super('stepUp', message, cause);
+    this.name = 'StepUpError';
+  }
+}
+
+export class ConsentRequiredError extends AuthError {
+  // Scopes still to consent to - pass them to requestScopes() from a user action
+  // النطاقات التي لم تتم الموافقة عليها بعد - مررها إلى requestScopes() من إجراء المستخدم
+  public readonly scopes: string[];
+
+  constructor(scopes: string[], cause?: unknown) {
+    super('consentRequired', `Access to "${scopes.join(' ')}" has not been granted yet.`, cause);
+    this.name = 'ConsentRequiredError';
+    this.scopes = scopes;
+  }
+}
+
+// oidc-client-ts messages for a callback whose state is missing or already consumed
+// رسائل oidc-client-ts لاستدعاء حالته مفقودة أو مستهلكة بالفعل
+const STATE_ERROR_MESSAGES = ['No matching state found in storage', 'No state in response', 'State does not match'];
+
+// Messages of the TypeError fetch() rejects with per browser (Chrome, Firefox, Safari, Node)
+// رسائل TypeError التي يرفض بها fetch() حسب المتصفح (Chrome وFirefox وSafari وNode)
+const FETCH_FAILURE_MESSAGE = /Failed to fetch|NetworkError when attempting to fetch|Load failed|Network request failed|fetch failed/i;
+
+/**
+ * Is Network Failure
+ * fetch() rejects with a TypeError when the request cannot be sent at all -
+ * other TypeErrors are bugs, not network failures
+ *
+ * هل هو فشل في الشبكة
+ * يرفض fetch() بـ TypeError عندما لا يمكن إرسال الطلب على الإطلاق -
+ * أخطاء TypeError الأخرى أخطاء برمجية وليست فشلاً في الشبكة
+ */
+const isNetworkFailure = (error: unknown): boolean =>
+  error instanceof ErrorTimeout ||
+  (error instanceof TypeError && FETCH_FAILURE_MESSAGE.test(error.message)) ||
+  (typeof navigator !== 'undefined' && navigator.onLine === false);
+
+/**
+ * To Auth Error
+ * Classifies any error thrown while completing a login
+ *
+ * التحويل إلى خطأ مصادقة
+ * يصنف أي خطأ يتم رميه أثناء إكمال تسجيل الدخول
+ */
+export const toAuthError = (error: unknown): AuthError => {
+  if (error instanceof AuthError) {
+    return error;
+  }
+
+  if (error instanceof ErrorResponse) {
+    if (error.error === 'access_denied') {
+      return new AccessDeniedError(error.error_description || undefined, error);
+    }
+    if (error.error === 'invalid_grant') {
+      return new ExpiredCodeError(undefined, error);
+    }
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (STATE_ERROR_MESSAGES.some((stateMessage) => message.includes(stateMessage))) {
+    return new StateMismatchError(undefined, error);
+  }
+
+  if (isNetworkFailure(error)) {
+    return new AuthNetworkError(undefined, error);
+  }
+
+  return new AuthError('unknown', message || 'Authentication failed', error);
+};
+
+/**
+ * Get Clock Skew
+ * Seconds between the id_token's iat and this device's clock (positive = device is behind)
+ *
+ * الحصول على انحراف الساعة
+ * الثواني بين iat الخاص برمز الهوية وساعة هذا الجهاز (موجب = الجهاز متأخر)
+ */
+export const getClockSkewSeconds = (user: User): number => {
+  const issuedAt = user.profile.iat;
+  return typeof issuedAt === 'number' ? issuedAt - Math.floor(Date.now() / 1000) : 0;
+};
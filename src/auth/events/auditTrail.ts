@@ -0,0 +1,157 @@
+/**
+ * ============================================================================
+ * AUTH AUDIT TRAIL - auditTrail.ts
+ * ============================================================================
+ *
+ * This file turns auth events into audit records and sends them to a sink.
+ * The built-in HttpAuditSink batches records and POSTs them to the endpoint
+ * configured in config.json ("audit"), so ops can see renew failures and
+ * forced logouts in production. Other sinks can be plugged in with
+ * attachAuditSink().
+ *
+ * سجل تدقيق المصادقة - auditTrail.ts
+ * يحول هذا الملف أحداث المصادقة إلى سجلات تدقيق ويرسلها إلى وجهة (sink).
+ * HttpAuditSink المدمج يجمع السجلات على دفعات ويرسلها بـ POST إلى نقطة النهاية
+ * المحددة في config.json ("audit")، حتى يتمكن فريق العمليات من رؤية حالات فشل
+ * التجديد وتسجيلات الخروج الإجبارية في الإنتاج. يمكن توصيل وجهات أخرى باستخدام
+ * attachAuditSink().
+ *
+ * ============================================================================
+ */
+
+import { AnyAuthEvent, AuthEventEmitter } from './authEvents';
+import { AuditSettings } from '../config/appConfig';
+
+/**
+ * Audit Record
+ * JSON-safe version of an auth event (errors become messages)
+ *
+ * سجل التدقيق
+ * نسخة آمنة لـ JSON من حدث المصادقة (الأخطاء تصبح رسائل)
+ */
+export interface AuditRecord {
+  type: AnyAuthEvent['type'];
+  timestamp: string;                 // ISO 8601
+  subject?: string;
+  details: Record<string, unknown>;
+}
+
+/**
+ * Audit Sink
+ * Anything that can receive audit records
+ *
+ * وجهة التدقيق
+ * أي شيء يمكنه استقبال سجلات التدقيق
+ */
+export interface AuditSink {
+  record(record: AuditRecord): void;
+  flush(): Promise<void>;
+}
+
+/**
+ * To Audit Record
+ * Converts an auth event to a JSON-safe audit record
+ *
+ * التحويل إلى سجل تدقيق
+ * يحول حدث المصادقة إلى سجل تدقيق آمن لـ JSON
+ */
+export const toAuditRecord = (event: AnyAuthEvent): AuditRecord => {
+  const details: Record<string, unknown> = {};
+  Object.entries(event.payload).forEach(([key, value]) => {
+    details[key] = value instanceof Error ? value.message : value;
+  });
+
+  return {
+    type: event.type,
+    timestamp: new Date(event.timestamp).toISOString(),
+    subject: event.subject,
+    details,
+  };
+};
+
+/**
+ * HttpAuditSink Class
+ * Batches records and POSTs { records: [...] } to the endpoint when the batch
+ * is full, on a timer, and when the page is hidden (so nothing is lost on close)
+ *
+ * فئة HttpAuditSink
+ * تجمع السجلات وترسل { records: [...] } بـ POST إلى نقطة النهاية عندما تمتلئ
+ * الدفعة، وعلى مؤقت، وعندما تُخفى الصفحة (حتى لا يضيع شيء عند الإغلاق)
+ */
+export class HttpAuditSink implements AuditSink {
+  private queue: AuditRecord[] = [];
+  private readonly flushTimer: ReturnType<typeof setInterval>;
+
+  constructor(private readonly settings: AuditSettings) {
+    this.flushTimer = setInterval(() => {
+      this.flush();
+    }, settings.flushIntervalSeconds * 1000);
+
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  public record(record: AuditRecord): void {
+    this.queue.push(record);
+    if (this.queue.length >= this.settings.batchSize) {
+      this.flush();
+    }
+  }
+
+  public async flush(): Promise<void> {
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    const records = this.queue;
+    this.queue = [];
+
+    try {
+      // keepalive lets the request finish even if the page is being closed
+      // keepalive يسمح للطلب بالانتهاء حتى لو كانت الصفحة قيد الإغلاق
+      const response = await fetch(this.settings.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ records }),
+        keepalive: true,
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    } catch (error) {
+      // Auditing must never break the app - log and drop the batch
+      // يجب ألا يعطل التدقيق التطبيق أبداً - سجل الخطأ واحذف الدفعة
+      console.error(`Error sending ${records.length} audit record(s):`, error);
+    }
+  }
+
+  /**
+   * Dispose Function
+   * Sends what is left and stops the timer and the visibility listener
+   *
+   * وظيفة التخلص
+   * يرسل ما تبقى ويوقف المؤقت ومستمع الظهور
+   */
+  public dispose(): Promise<void> {
+    clearInterval(this.flushTimer);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    return this.flush();
+  }
+
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      this.flush();
+    }
+  };
+}
+
+/**
+ * Attach Audit Sink Function
+ * Sends every auth event to the sink - returns a function to detach it
+ *
+ * وظيفة إرفاق وجهة التدقيق
+ * يرسل كل حدث مصادقة إلى الوجهة - يعيد وظيفة لفصلها
+ */
+export const attachAuditSink = (events: AuthEventEmitter, sink: AuditSink): (() => void) => {
+  return events.subscribe((event) => sink.record(toAuditRecord(event)));
+};
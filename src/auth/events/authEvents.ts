@@ -0,0 +1,149 @@
+/**
+ * ============================================================================
+ * AUTH EVENT BUS - authEvents.ts
+ * ============================================================================
+ *
+ * This file defines the typed authentication events emitted by AuthService
+ * (login, renewal, expiry, logout) and a small emitter to subscribe to them.
+ * React components use useAuthEvents(); the audit trail (auditTrail.ts)
+ * subscribes to every event and ships them to the ops endpoint.
+ *
+ * ناقل أحداث المصادقة - authEvents.ts
+ * يعرّف هذا الملف أحداث المصادقة المكتوبة التي يطلقها AuthService
+ * (تسجيل الدخول، التجديد، الانتهاء، تسجيل الخروج) وباعث صغير للاشتراك فيها.
+ * تستخدم مكونات React الـ hook useAuthEvents()؛ ويشترك سجل التدقيق (auditTrail.ts)
+ * في كل حدث ويرسلها إلى نقطة نهاية فريق العمليات.
+ *
+ * ============================================================================
+ */
+
+import type { LoginMode } from '../authService';
+import type { RenewStrategy, SessionChangeAction } from '../config/appConfig';
+import type { AuthError, AuthErrorKind } from '../errors/authErrors';
+
+/**
+ * Logout Reason
+ * user: user clicked sign out
+ * tokenExpired: access token expired
+ * idle: inactivity timeout
+ * otherTab: user signed out in another tab
+ * unauthorized: API returned 401 and the session could not be recovered
+ * sessionEnded: the Identity Server session ended (signed out in another app)
+ *
+ * سبب تسجيل الخروج
+ * user: نقر المستخدم على تسجيل الخروج
+ * tokenExpired: انتهت صلاحية رمز الوصول
+ * idle: مهلة عدم النشاط
+ * otherTab: سجل المستخدم خروجه في تبويب آخر
+ * unauthorized: أعاد API الخطأ 401 ولم يمكن استعادة الجلسة
+ * sessionEnded: انتهت جلسة خادم الهوية (تسجيل الخروج في تطبيق آخر)
+ */
+export type LogoutReason = 'user' | 'tokenExpired' | 'idle' | 'otherTab' | 'unauthorized' | 'sessionEnded';
+
+/**
+ * Session Change Type
+ * signedOut: the user is no longer signed in to Identity Server (or another user is)
+ * changed: same user, but the Identity Server session changed
+ *
+ * نوع تغيير الجلسة
+ * signedOut: لم يعد المستخدم مسجلاً الدخول في خادم الهوية (أو مستخدم آخر مسجل)
+ * changed: نفس المستخدم، ولكن جلسة خادم الهوية تغيرت
+ */
+export type SessionChangeType = 'signedOut' | 'changed';
+
+/**
+ * Auth Event Map
+ * Event type → payload
+ *
+ * خريطة أحداث المصادقة
+ * نوع الحدث → الحمولة
+ */
+export interface AuthEventMap {
+  loginStarted: { mode: LoginMode; provider: string };
+  loginCompleted: { mode: LoginMode; provider: string };
+  loginFailed: { error: AuthError; kind: AuthErrorKind; diagnosticId: string };
+  stepUpStarted: { mode: LoginMode; maxAgeSeconds: number; acrValues: string[] };
+  stepUpCompleted: { mode: LoginMode };
+  scopesRequested: { scopes: string[]; mode: LoginMode };
+  renewStarted: {};
+  renewSucceeded: { strategy: RenewStrategy };
+  renewFailed: { error: AuthError; strategies: RenewStrategy[] };
+  tokenExpiring: {};
+  tokenExpired: {};
+  sessionChanged: { change: SessionChangeType; action: SessionChangeAction };
+  logout: { reason: LogoutReason };
+}
+
+export type AuthEventType = keyof AuthEventMap;
+
+export interface AuthEvent<K extends AuthEventType = AuthEventType> {
+  type: K;
+  payload: AuthEventMap[K];
+  timestamp: number;    // Epoch milliseconds / ميلي ثانية epoch
+  subject?: string;     // 'sub' of the signed-in user, if any / 'sub' للمستخدم المسجل إن وجد
+}
+
+/**
+ * Any Auth Event
+ * Discriminated union of all events - switch on event.type to narrow the payload
+ *
+ * أي حدث مصادقة
+ * اتحاد مميز لجميع الأحداث - استخدم switch على event.type لتضييق الحمولة
+ */
+export type AnyAuthEvent = { [K in AuthEventType]: AuthEvent<K> }[AuthEventType];
+
+export type AuthEventListener = (event: AnyAuthEvent) => void;
+
+/**
+ * AuthEventEmitter Class
+ * Minimal typed emitter - listeners are isolated so one failing listener
+ * cannot stop the others (or break AuthService)
+ *
+ * فئة AuthEventEmitter
+ * باعث مكتوب بسيط - المستمعون معزولون حتى لا يوقف مستمع فاشل الآخرين
+ * (أو يعطل AuthService)
+ */
+export class AuthEventEmitter {
+  private readonly listeners = new Set<AuthEventListener>();
+
+  /**
+   * Subscribe Function
+   * Listens to every event - returns an unsubscribe function
+   *
+   * وظيفة الاشتراك
+   * يستمع لكل حدث - يعيد وظيفة لإلغاء الاشتراك
+   */
+  public subscribe(listener: AuthEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * On Function
+   * Listens to one event type - returns an unsubscribe function
+   *
+   * وظيفة On
+   * يستمع لنوع حدث واحد - يعيد وظيفة لإلغاء الاشتراك
+   */
+  public on<K extends AuthEventType>(type: K, listener: (event: AuthEvent<K>) => void): () => void {
+    return this.subscribe((event) => {
+      if (event.type === type) {
+        listener(event as AuthEvent<K>);
+      }
+    });
+  }
+
+  public emit<K extends AuthEventType>(type: K, payload: AuthEventMap[K], subject?: string): void {
+    const event = { type, payload, timestamp: Date.now(), subject } as AnyAuthEvent;
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in auth event listener for "${type}":`, error);
+      }
+    });
+  }
+}
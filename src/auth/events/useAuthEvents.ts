@@ -0,0 +1,50 @@
+/**
+ * ============================================================================
+ * useAuthEvents HOOK - useAuthEvents.ts
+ * ============================================================================
+ *
+ * Subscribes a component to auth events from AuthService for as long as it
+ * is mounted.
+ *
+ * Example:
+ *   useAuthEvents((event) => {
+ *     if (event.type === 'renewFailed') showToast(event.payload.error.message);
+ *   }, ['renewFailed']);
+ *
+ * يشترك المكون في أحداث المصادقة من AuthService طالما أنه محمّل.
+ *
+ * ============================================================================
+ */
+
+import { useEffect, useRef } from 'react';
+import { useAuthService } from '../contexts/AuthContext';
+import { AuthEventListener, AuthEventType } from './authEvents';
+
+/**
+ * useAuthEvents Hook
+ * listener: called for each event (latest listener is always used, no resubscribe)
+ * types: optional filter - only these event types are delivered
+ *
+ * Hook useAuthEvents
+ * listener: يتم استدعاؤه لكل حدث (يُستخدم دائماً أحدث مستمع، بدون إعادة اشتراك)
+ * types: مرشح اختياري - يتم تسليم أنواع الأحداث هذه فقط
+ */
+export const useAuthEvents = (listener: AuthEventListener, types?: AuthEventType[]): void => {
+  const authService = useAuthService();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  // Join to a string so an inline array does not resubscribe on every render
+  // الدمج في نص حتى لا تعيد المصفوفة المضمنة الاشتراك في كل عرض
+  const typesKey = types ? types.join(',') : '';
+
+  useEffect(() => {
+    const allowed = typesKey ? typesKey.split(',') : null;
+
+    return authService.events.subscribe((event) => {
+      if (!allowed || allowed.includes(event.type)) {
+        listenerRef.current(event);
+      }
+    });
+  }, [typesKey, authService]);
+};
@@ -0,0 +1,46 @@
+import { UserClaims } from './claims';
+import { authorize, definePolicy } from './policies';
+import { createUser } from './testUtils';
+
+interface CalcClaims extends UserClaims {
+  department?: string;
+}
+
+describe('definePolicy', () => {
+  it('returns the name to authorize with', () => {
+    expect(definePolicy('policies-test.name', () => true)).toBe('policies-test.name');
+  });
+
+  it('replaces a policy defined again under the same name', () => {
+    definePolicy('policies-test.redefined', (user) => user.roles.includes('admin'));
+    definePolicy('policies-test.redefined', (user) => user.roles.includes('auditor'));
+
+    expect(authorize(createUser({ role: 'auditor' }), 'policies-test.redefined')).toBe(true);
+    expect(authorize(createUser({ role: 'admin' }), 'policies-test.redefined')).toBe(false);
+  });
+});
+
+describe('authorize', () => {
+  const financeOnly = definePolicy<CalcClaims>('policies-test.finance', (user) => user.department === 'finance');
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('evaluates a named policy on the typed claims', () => {
+    expect(authorize(createUser({ department: 'finance' }), financeOnly)).toBe(true);
+    expect(authorize(createUser({ department: 'hr' }), financeOnly)).toBe(false);
+  });
+
+  it('evaluates an inline policy with the roles normalized', () => {
+    expect(authorize(createUser({ role: 'admin' }), (user) => user.roles.includes('admin'))).toBe(true);
+  });
+
+  it('denies signed-out users, expired sessions and unknown policies', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(authorize(null, () => true)).toBe(false);
+    expect(authorize(createUser({}, -60), () => true)).toBe(false);
+    expect(authorize(createUser({}), 'policies-test.unknown')).toBe(false);
+  });
+});
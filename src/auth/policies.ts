@@ -0,0 +1,95 @@
+/**
+ * ============================================================================
+ * AUTHORIZATION POLICIES - policies.ts
+ * ============================================================================
+ *
+ * This file holds the named policies that answer "can this user do X".
+ * Features register their rules once with definePolicy() and the UI asks by
+ * name with useAuthorize() or <Authorized>, so the rule lives in one place.
+ * Unknown policies deny access. The same policies (by name or inline) are
+ * accepted by <ProtectedRoute policy>.
+ *
+ * Example:
+ *   definePolicy('reasons.edit', (user) => user.roles.includes('admin'));
+ *   const canEdit = useAuthorize('reasons.edit');
+ *   <Authorized policy="reasons.edit"><button>Edit</button></Authorized>
+ *
+ * سياسات التفويض - policies.ts
+ * يحتوي هذا الملف على السياسات المسماة التي تجيب على "هل يمكن لهذا المستخدم فعل X".
+ * تسجل الميزات قواعدها مرة واحدة عبر definePolicy() وتسأل الواجهة بالاسم عبر
+ * useAuthorize() أو <Authorized>، لذا تعيش القاعدة في مكان واحد.
+ * السياسات غير المعروفة ترفض الوصول. نفس السياسات (بالاسم أو مضمنة) يقبلها
+ * <ProtectedRoute policy>.
+ *
+ * ============================================================================
+ */
+
+import { useMemo } from 'react';
+import { User } from 'oidc-client-ts';
+import { toUserClaims, UserClaims } from './claims';
+import { useAuth } from './contexts/AuthContext';
+
+/**
+ * Policy
+ * Predicate on the typed claims of a signed-in user
+ *
+ * السياسة
+ * دالة تحقق على المطالبات المكتوبة لمستخدم مسجل
+ */
+export type Policy<TClaims extends UserClaims = UserClaims> = (user: TClaims) => boolean;
+
+// Registered policies by name - stored against the base claims they are evaluated on
+// السياسات المسجلة حسب الاسم - مخزنة مقابل المطالبات الأساسية التي يتم تقييمها عليها
+const policies = new Map<string, Policy>();
+
+/**
+ * Define Policy Function
+ * Registers a named policy - one name per rule (e.g. 'reasons.edit')
+ * Defining a name again replaces its policy, so the latest definition wins
+ * (a module evaluated again on hot reload registers its edited rule)
+ *
+ * وظيفة تعريف السياسة
+ * يسجل سياسة مسماة - اسم واحد لكل قاعدة (مثل 'reasons.edit')
+ * تعريف اسم مرة أخرى يستبدل سياسته، لذا يفوز التعريف الأخير
+ * (الوحدة التي يُعاد تقييمها عند إعادة التحميل السريع تسجل قاعدتها المعدلة)
+ */
+export const definePolicy = <TClaims extends UserClaims = UserClaims>(name: string, policy: Policy<TClaims>): string => {
+  // TClaims only adds app-specific claims to the ones toUserClaims() builds
+  // TClaims يضيف فقط مطالبات خاصة بالتطبيق إلى تلك التي ينشئها toUserClaims()
+  policies.set(name, policy as Policy);
+  return name;
+};
+
+/**
+ * Authorize Function
+ * Evaluates a named or inline policy - signed-out users and unknown policies are denied
+ *
+ * وظيفة التفويض
+ * يقيّم سياسة مسماة أو مضمنة - المستخدمون غير المسجلين والسياسات غير المعروفة مرفوضون
+ */
+export const authorize = (user: User | null, policy: string | Policy): boolean => {
+  const claims = toUserClaims(user);
+  if (!claims || user?.expired) {
+    return false;
+  }
+
+  const predicate = typeof policy === 'string' ? policies.get(policy) : policy;
+  if (!predicate) {
+    console.error(`Unknown authorization policy "${policy}" - access denied`);
+    return false;
+  }
+
+  return predicate(claims);
+};
+
+/**
+ * useAuthorize Hook
+ * True when the signed-in user satisfies the policy
+ *
+ * Hook useAuthorize
+ * صحيح عندما يستوفي المستخدم المسجل السياسة
+ */
+export const useAuthorize = (policy: string | Policy): boolean => {
+  const { user } = useAuth();
+  return useMemo(() => authorize(user, policy), [user, policy]);
+};
@@ -0,0 +1,83 @@
+/**
+ * ============================================================================
+ * RECENT AUTHENTICATION - recentAuth.ts
+ * ============================================================================
+ *
+ * This file checks whether the current user signed in recently enough (and
+ * with a strong enough method) for a sensitive operation - "step-up"
+ * authentication. It reads the auth_time and acr claims of the id_token.
+ *
+ * المصادقة الحديثة - recentAuth.ts
+ * يتحقق هذا الملف مما إذا كان المستخدم الحالي قد سجل الدخول مؤخراً بما يكفي
+ * (وبطريقة قوية بما يكفي) لعملية حساسة - مصادقة "step-up".
+ * يقرأ مطالبات auth_time و acr من رمز الهوية.
+ *
+ * ============================================================================
+ * FLOW:
+ * 1. authService.requireRecentAuth({ maxAgeSeconds, acrValues }) → isRecentAuth(user)
+ * 2. Too old / wrong acr → signinPopup / signinRedirect with max_age and acr_values
+ * 3. Identity Server asks for the credentials again → new auth_time / acr
+ * 4. The pending action continues (popup) or is resumed after the callback (redirect)
+ *
+ * التدفق:
+ * 1. authService.requireRecentAuth({ maxAgeSeconds, acrValues }) → isRecentAuth(user)
+ * 2. قديم جداً / acr خاطئ → signinPopup / signinRedirect مع max_age و acr_values
+ * 3. خادم الهوية يطلب بيانات الاعتماد مرة أخرى → auth_time / acr جديد
+ * 4. يستمر الإجراء المعلق (نافذة منبثقة) أو يُستأنف بعد الاستدعاء (إعادة توجيه)
+ * ============================================================================
+ */
+
+import { User } from 'oidc-client-ts';
+
+// Default age limit for sensitive operations / حد العمر الافتراضي للعمليات الحساسة
+export const DEFAULT_RECENT_AUTH_MAX_AGE_SECONDS = 300;
+
+/**
+ * Recent Auth Requirement
+ * maxAgeSeconds: the user must have entered their credentials within this many seconds
+ * acrValues: accepted authentication context classes (empty = any)
+ *
+ * متطلب المصادقة الحديثة
+ * maxAgeSeconds: يجب أن يكون المستخدم قد أدخل بيانات اعتماده خلال هذا العدد من الثواني
+ * acrValues: فئات سياق المصادقة المقبولة (فارغة = أي فئة)
+ */
+export interface RecentAuthRequirement {
+  maxAgeSeconds?: number;
+  acrValues?: string[];
+}
+
+/**
+ * Get Auth Age
+ * Seconds since the user entered their credentials (null when auth_time is missing)
+ *
+ * الحصول على عمر المصادقة
+ * الثواني منذ أن أدخل المستخدم بيانات اعتماده (null عندما يكون auth_time مفقوداً)
+ */
+export const getAuthAgeSeconds = (user: User): number | null => {
+  const authTime = user.profile.auth_time;
+  return typeof authTime === 'number' ? Math.floor(Date.now() / 1000) - authTime : null;
+};
+
+/**
+ * Is Recent Auth
+ * True when the user satisfies the requirement - a missing auth_time never does
+ *
+ * هل هي مصادقة حديثة
+ * صحيح عندما يستوفي المستخدم المتطلب - auth_time المفقود لا يستوفيه أبداً
+ */
+export const isRecentAuth = (
+  user: User | null,
+  { maxAgeSeconds = DEFAULT_RECENT_AUTH_MAX_AGE_SECONDS, acrValues = [] }: RecentAuthRequirement = {}
+): boolean => {
+  if (!user || user.expired) {
+    return false;
+  }
+
+  const age = getAuthAgeSeconds(user);
+  if (age === null || age > maxAgeSeconds) {
+    return false;
+  }
+
+  const acr = user.profile.acr;
+  return acrValues.length === 0 || (typeof acr === 'string' && acrValues.includes(acr));
+};
@@ -0,0 +1,76 @@
+import { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { getRetryDelay, RetryOptions } from './retryPolicy';
+
+const options: RetryOptions = { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 10000 };
+
+const createError = (method: string, status?: number, headers: Record<string, string> = {}, code = AxiosError.ERR_NETWORK): AxiosError => {
+  const config = { method, headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+  const response = status
+    ? ({ status, statusText: '', headers, data: {}, config } as AxiosResponse)
+    : undefined;
+  return new AxiosError('Request failed', status ? undefined : code, config, {}, response);
+};
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('retries network errors and gateway errors of idempotent requests', () => {
+    expect(getRetryDelay(createError('get'), 1, options)).not.toBeNull();
+    expect(getRetryDelay(createError('put', 503), 1, options)).not.toBeNull();
+    expect(getRetryDelay(createError('delete', 504), 1, options)).not.toBeNull();
+  });
+
+  it('retries timeouts', () => {
+    expect(getRetryDelay(createError('get', undefined, {}, AxiosError.ETIMEDOUT), 1, options)).not.toBeNull();
+    expect(getRetryDelay(createError('get', undefined, {}, AxiosError.ECONNABORTED), 1, options)).not.toBeNull();
+  });
+
+  it('does not retry client errors or server errors that are not transient', () => {
+    expect(getRetryDelay(createError('get', 400), 1, options)).toBeNull();
+    expect(getRetryDelay(createError('get', 500), 1, options)).toBeNull();
+  });
+
+  it('retries a POST only when the request is marked idempotent', () => {
+    expect(getRetryDelay(createError('post', 503), 1, options)).toBeNull();
+    expect(getRetryDelay(createError('post', 503), 1, { ...options, idempotent: true })).not.toBeNull();
+  });
+
+  it('stops after maxAttempts', () => {
+    expect(getRetryDelay(createError('get', 503), 2, options)).not.toBeNull();
+    expect(getRetryDelay(createError('get', 503), 3, options)).toBeNull();
+  });
+
+  it('grows the delay exponentially with jitter, up to maxDelayMs', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const unlimited = { ...options, maxAttempts: 10 };
+
+    expect(getRetryDelay(createError('get', 503), 1, unlimited)).toBe(250);
+    expect(getRetryDelay(createError('get', 503), 2, unlimited)).toBe(500);
+    expect(getRetryDelay(createError('get', 503), 3, unlimited)).toBe(1000);
+    expect(getRetryDelay(createError('get', 503), 9, unlimited)).toBe(5000);
+
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    expect(getRetryDelay(createError('get', 503), 1, unlimited)).toBe(500);
+  });
+
+  it('waits for Retry-After on 429, in seconds or as an HTTP date', () => {
+    expect(getRetryDelay(createError('get', 429, { 'retry-after': '2' }), 1, options)).toBe(2000);
+
+    const date = new Date(Date.now() + 5000).toUTCString();
+    const delay = getRetryDelay(createError('get', 429, { 'retry-after': date }), 1, options);
+    expect(delay).toBeGreaterThan(3000);
+    expect(delay).toBeLessThanOrEqual(5000);
+  });
+
+  it('falls back to backoff when Retry-After is missing or invalid', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelay(createError('get', 429), 1, options)).toBe(250);
+    expect(getRetryDelay(createError('get', 429, { 'retry-after': 'soon' }), 1, options)).toBe(250);
+  });
+
+  it('gives up (as a rate-limit error, see apiErrors) when Retry-After is longer than maxDelayMs', () => {
+    expect(getRetryDelay(createError('get', 429, { 'retry-after': '60' }), 1, options)).toBeNull();
+  });
+});
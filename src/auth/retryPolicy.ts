@@ -0,0 +1,141 @@
+/**
+ * ============================================================================
+ * RETRY POLICY - retryPolicy.ts
+ * ============================================================================
+ *
+ * This file decides whether a failed API request is retried and how long to
+ * wait first. Only transient failures are retried (network errors, timeouts,
+ * 502/503/504 and 429), and only for idempotent methods unless the request
+ * opts in. Delays grow exponentially with jitter, so clients that failed
+ * together do not retry together; a 429 waits for its Retry-After.
+ * A request that fails for good is classified by errors/apiErrors.ts (e.g. a
+ * timeout, or a 429 whose Retry-After is longer than maxDelayMs).
+ *
+ * Example (config.json "retry" is the default, each request can override it):
+ *   apiClient.post('/reasons', body, { retry: { idempotent: true } });  // POST made safe to repeat
+ *   apiClient.get('/report', { retry: { maxAttempts: 5 } });
+ *   apiClient.get('/status', { retry: false });                         // never retry
+ *
+ * سياسة إعادة المحاولة - retryPolicy.ts
+ * يقرر هذا الملف ما إذا كان طلب API الفاشل يُعاد ومدة الانتظار قبل ذلك.
+ * تتم إعادة الأعطال المؤقتة فقط (أخطاء الشبكة، انتهاء المهلة، 502/503/504 و 429)،
+ * وللطرق غير المؤثرة (idempotent) فقط ما لم يختر الطلب ذلك. تنمو التأخيرات
+ * أسياً مع عشوائية، حتى لا تعيد العملاء التي فشلت معاً المحاولة معاً؛
+ * ويتم انتظار Retry-After للخطأ 429.
+ * الطلب الذي يفشل نهائياً يصنفه errors/apiErrors.ts (مثل انتهاء المهلة، أو 429
+ * مع Retry-After أطول من maxDelayMs).
+ *
+ * ============================================================================
+ */
+
+import axios, { AxiosError } from 'axios';
+import { RetryPolicy } from './config/appConfig';
+
+/**
+ * Retry Options
+ * The retry policy of one request (its timeout is axios' own "timeout" option)
+ * idempotent: the request is safe to repeat whatever its method (e.g. a POST with an idempotency key)
+ *
+ * خيارات إعادة المحاولة
+ * سياسة إعادة المحاولة لطلب واحد (مهلته هي خيار "timeout" الخاص بـ axios)
+ * idempotent: الطلب آمن للتكرار أياً كانت طريقته (مثل POST مع مفتاح idempotency)
+ */
+export interface RetryOptions extends Omit<RetryPolicy, 'timeoutMs'> {
+  idempotent?: boolean;
+}
+
+// Methods that can be repeated without extra side effects (RFC 9110) / الطرق التي يمكن تكرارها دون آثار جانبية إضافية
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+// Gateway errors and rate limiting / أخطاء البوابة وتحديد المعدل
+const TRANSIENT_STATUSES = [429, 502, 503, 504];
+
+/**
+ * Is Timeout Error
+ * The request ran out of time (ETIMEDOUT, or ECONNABORTED without clarifyTimeoutError)
+ *
+ * هل هو خطأ انتهاء المهلة
+ * نفد وقت الطلب (ETIMEDOUT، أو ECONNABORTED بدون clarifyTimeoutError)
+ */
+export const isTimeoutError = (error: AxiosError): boolean =>
+  error.code === AxiosError.ETIMEDOUT || error.code === AxiosError.ECONNABORTED;
+
+/**
+ * Is Transient Failure
+ * Timeouts, network errors (no response) or a transient status - never a cancelled request
+ *
+ * هل هو عطل مؤقت
+ * انتهاء المهلة، أخطاء الشبكة (بدون استجابة) أو حالة مؤقتة - وليس طلباً ملغى أبداً
+ */
+const isTransientFailure = (error: AxiosError): boolean => {
+  if (axios.isCancel(error)) {
+    return false;
+  }
+  if (isTimeoutError(error)) {
+    return true;
+  }
+  return !error.response || TRANSIENT_STATUSES.includes(error.response.status);
+};
+
+/**
+ * Parse Retry-After
+ * Milliseconds to wait from a Retry-After header (seconds or HTTP date), null when missing or invalid
+ *
+ * تحليل Retry-After
+ * المللي ثانية للانتظار من ترويسة Retry-After (ثوانٍ أو تاريخ HTTP)، null عند غيابها أو عدم صلاحيتها
+ */
+export const parseRetryAfter = (value: unknown, now: number = Date.now()): number | null => {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Get Backoff Delay
+ * Exponential backoff with "equal jitter": half the step is fixed, half is random
+ *
+ * الحصول على تأخير التراجع
+ * تراجع أسي مع "عشوائية متساوية": نصف الخطوة ثابت والنصف الآخر عشوائي
+ */
+const getBackoffDelay = (attempt: number, options: RetryOptions): number => {
+  const step = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(step / 2 + Math.random() * (step / 2));
+};
+
+/**
+ * Get Retry Delay
+ * Milliseconds to wait before retrying a failed request, null when it must not be retried
+ * attempt: attempts made so far (1 after the first failure)
+ *
+ * الحصول على تأخير إعادة المحاولة
+ * المللي ثانية للانتظار قبل إعادة طلب فاشل، null عندما يجب عدم إعادته
+ * attempt: عدد المحاولات حتى الآن (1 بعد الفشل الأول)
+ */
+export const getRetryDelay = (error: AxiosError, attempt: number, options: RetryOptions): number | null => {
+  const method = (error.config?.method ?? 'get').toLowerCase();
+  if (attempt >= options.maxAttempts || !isTransientFailure(error)) {
+    return null;
+  }
+  if (!options.idempotent && !IDEMPOTENT_METHODS.includes(method)) {
+    return null;
+  }
+
+  if (error.response?.status === 429) {
+    const retryAfter = parseRetryAfter(error.response.headers['retry-after']);
+    if (retryAfter !== null) {
+      // Rather fail now (as an ApiRateLimitError) than keep the user waiting longer than maxDelayMs
+      // الفشل الآن (كـ ApiRateLimitError) أفضل من إبقاء المستخدم ينتظر أكثر من maxDelayMs
+      return retryAfter <= options.maxDelayMs ? retryAfter : null;
+    }
+  }
+
+  return getBackoffDelay(attempt, options);
+};
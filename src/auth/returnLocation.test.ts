@@ -0,0 +1,48 @@
+import type { Location } from 'react-router-dom';
+import { DEFAULT_RETURN_LOCATION, resolveReturnLocation, toReturnLocation } from './returnLocation';
+
+describe('toReturnLocation', () => {
+  it('keeps the path, query, hash and router state', () => {
+    const location: Location = { pathname: '/game', search: '?level=2', hash: '#top', state: { tab: 'scores' }, key: 'abc' };
+    expect(toReturnLocation(location)).toEqual({ pathname: '/game', search: '?level=2', hash: '#top', state: { tab: 'scores' } });
+  });
+});
+
+describe('resolveReturnLocation', () => {
+  it('returns a valid app location with its state', () => {
+    expect(resolveReturnLocation({ pathname: '/account', search: '?tab=tokens', hash: '#claims', state: { from: 'menu' } })).toEqual({
+      pathname: '/account',
+      search: '?tab=tokens',
+      hash: '#claims',
+      state: { from: 'menu' },
+    });
+  });
+
+  it('defaults a missing query and hash', () => {
+    expect(resolveReturnLocation({ pathname: '/game' })).toEqual({ pathname: '/game', search: '', hash: '', state: undefined });
+  });
+
+  it.each([
+    ['no value', undefined],
+    ['a string', '/account'],
+    ['a missing pathname', { search: '?a=1' }],
+    ['a non-string query', { pathname: '/game', search: 1 }],
+    ['a relative path', { pathname: 'account' }],
+    ['an absolute URL', { pathname: 'https://evil.example/account' }],
+    ['a protocol-relative URL', { pathname: '//evil.example/account' }],
+    ['a backslash protocol-relative URL', { pathname: '/\\evil.example/account' }],
+  ])('falls back to home for %s', (_, value) => {
+    expect(resolveReturnLocation(value)).toBe(DEFAULT_RETURN_LOCATION);
+  });
+
+  it.each(['/login', '/auth/callback', '/auth/callback/partner', '/silent-renew', '/signout-callback', '/signed-out'])(
+    'never returns to the auth page %s',
+    (pathname) => {
+      expect(resolveReturnLocation({ pathname })).toBe(DEFAULT_RETURN_LOCATION);
+    }
+  );
+
+  it('normalizes paths that lead to an auth page', () => {
+    expect(resolveReturnLocation({ pathname: '/game/../login' })).toBe(DEFAULT_RETURN_LOCATION);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * ============================================================================
+ * RETURN LOCATION - returnLocation.ts
+ * ============================================================================
+ *
+ * This file handles the page a user returns to after signing in.
+ * The location (path, query, hash and router state) travels inside the OIDC
+ * state of the sign-in request instead of shared storage, so two tabs signing
+ * in at the same time each return to their own page.
+ * It is validated as a same-origin app path before navigating, so a crafted
+ * state cannot turn the callback into an open redirect.
+ *
+ * موقع العودة - returnLocation.ts
+ * يتعامل هذا الملف مع الصفحة التي يعود إليها المستخدم بعد تسجيل الدخول.
+ * ينتقل الموقع (المسار، الاستعلام، الجزء ذو العلامة # وحالة الموجه) داخل حالة
+ * OIDC لطلب تسجيل الدخول بدلاً من التخزين المشترك، لذا فإن تبويبين يسجلان
+ * الدخول في نفس الوقت يعود كل منهما إلى صفحته.
+ * يتم التحقق من أنه مسار تطبيق من نفس الأصل قبل التنقل، حتى لا تحول حالة
+ * مصطنعة الاستدعاء إلى إعادة توجيه مفتوحة.
+ *
+ * ============================================================================
+ * FLOW:
+ * 1. ProtectedRoute → <Navigate to="/login" state={{ from: toReturnLocation(location) }} />
+ * 2. Login → login({ returnTo: from }) → signinRedirect({ state: { returnTo } })
+ * 3. AuthCallback → completeLogin() → user.state.returnTo → resolveReturnLocation() → navigate()
+ *
+ * التدفق:
+ * 1. ProtectedRoute → <Navigate to="/login" state={{ from: toReturnLocation(location) }} />
+ * 2. Login → login({ returnTo: from }) → signinRedirect({ state: { returnTo } })
+ * 3. AuthCallback → completeLogin() → user.state.returnTo → resolveReturnLocation() → navigate()
+ * ============================================================================
+ */
+
+import type { Location } from 'react-router-dom';
+
+/**
+ * Return Location
+ * Serializable subset of a router location (stored as JSON in the OIDC state)
+ *
+ * موقع العودة
+ * جزء قابل للتسلسل من موقع الموجه (يتم تخزينه كـ JSON في حالة OIDC)
+ */
+export interface ReturnLocation {
+  pathname: string;
+  search: string;
+  hash: string;
+  state?: unknown;     // Router state of the original page / حالة الموجه للصفحة الأصلية
+}
+
+/**
+ * Login Location State
+ * Router state passed to /login by ProtectedRoute
+ *
+ * حالة موقع تسجيل الدخول
+ * حالة الموجه التي يمررها ProtectedRoute إلى /login
+ */
+export interface LoginLocationState {
+  from?: ReturnLocation;
+}
+
+export const DEFAULT_RETURN_LOCATION: ReturnLocation = { pathname: '/', search: '', hash: '' };
+
+// Auth pages must never be a return target (would loop back into the login flow)
+// لا يجب أن تكون صفحات المصادقة هدفاً للعودة (ستعود إلى تدفق تسجيل الدخول)
+const AUTH_PATHS = ['/login', '/auth/', '/silent-renew', '/signout-callback', '/signed-out'];
+
+/**
+ * To Return Location
+ * Captures the current router location
+ *
+ * التحويل إلى موقع عودة
+ * يلتقط موقع الموجه الحالي
+ */
+export const toReturnLocation = (location: Location): ReturnLocation => ({
+  pathname: location.pathname,
+  search: location.search,
+  hash: location.hash,
+  state: location.state ?? undefined,
+});
+
+/**
+ * Resolve Return Location
+ * Validates an untrusted value (OIDC state, router state) and returns a safe
+ * same-origin location - anything else falls back to the home page
+ *
+ * حل موقع العودة
+ * يتحقق من قيمة غير موثوقة (حالة OIDC، حالة الموجه) ويعيد موقعاً آمناً
+ * من نفس الأصل - أي شيء آخر يعود إلى الصفحة الرئيسية
+ */
+export const resolveReturnLocation = (value: unknown): ReturnLocation => {
+  if (!value || typeof value !== 'object') {
+    return DEFAULT_RETURN_LOCATION;
+  }
+
+  const { pathname, search = '', hash = '', state } = value as Partial<ReturnLocation>;
+  if (typeof pathname !== 'string' || typeof search !== 'string' || typeof hash !== 'string') {
+    return DEFAULT_RETURN_LOCATION;
+  }
+
+  // Must be an absolute app path - '//host' and '/\host' are protocol-relative URLs
+  // يجب أن يكون مسار تطبيق مطلق - '//host' و '/\host' عناوين URL نسبية للبروتوكول
+  if (!pathname.startsWith('/') || pathname.startsWith('//') || pathname.startsWith('/\\')) {
+    return DEFAULT_RETURN_LOCATION;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(`${pathname}${search}${hash}`, window.location.origin);
+  } catch {
+    return DEFAULT_RETURN_LOCATION;
+  }
+
+  if (url.origin !== window.location.origin || AUTH_PATHS.some((path) => url.pathname.startsWith(path))) {
+    return DEFAULT_RETURN_LOCATION;
+  }
+
+  return { pathname: url.pathname, search: url.search, hash: url.hash, state };
+};
@@ -0,0 +1,141 @@
+/**
+ * ============================================================================
+ * CROSS-TAB SESSION SYNC - sessionSync.ts
+ * ============================================================================
+ *
+ * This file broadcasts authentication events (login, logout, token renewal)
+ * between open tabs of the app, so every tab updates its user state together.
+ * It uses BroadcastChannel when available, and falls back to the localStorage
+ * 'storage' event in older browsers.
+ * Messages carry no tokens: logins and renewals are only sent when the token
+ * store is shared by all tabs (localStorage / encryptedIndexedDb).
+ *
+ * مزامنة الجلسة بين التبويبات - sessionSync.ts
+ * يبث هذا الملف أحداث المصادقة (تسجيل الدخول، تسجيل الخروج، تجديد الرمز المميز)
+ * بين التبويبات المفتوحة للتطبيق، حتى يحدّث كل تبويب حالة المستخدم معاً.
+ * يستخدم BroadcastChannel عندما يكون متاحاً، ويعود إلى حدث 'storage' الخاص
+ * بـ localStorage في المتصفحات الأقدم.
+ * لا تحمل الرسائل أي رموز: لا يتم إرسال تسجيل الدخول والتجديد إلا عندما يكون
+ * مخزن الرموز مشتركاً بين جميع التبويبات (localStorage / encryptedIndexedDb).
+ *
+ * ============================================================================
+ */
+
+export type SessionSyncEventType = 'login' | 'logout' | 'renewed';
+
+interface SessionSyncMessage {
+  type: SessionSyncEventType;
+  tabId: string;       // Sender tab - used to ignore our own storage writes / التبويب المرسل
+  timestamp: number;   // Makes every storage write unique / يجعل كل كتابة فريدة
+}
+
+type SessionSyncListener = (type: SessionSyncEventType) => void;
+
+const CHANNEL_NAME = 'calc-auth-session';
+const STORAGE_KEY = 'calc-auth-session-event';
+
+/**
+ * SessionSync Class
+ * Sends and receives session events between tabs
+ *
+ * فئة SessionSync
+ * ترسل وتستقبل أحداث الجلسة بين التبويبات
+ */
+export class SessionSync {
+  private readonly tabId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  private readonly listeners = new Set<SessionSyncListener>();
+  private channel: BroadcastChannel | null = null;
+  private closed = false;
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<SessionSyncMessage>) => {
+        this.handleMessage(event.data);
+      };
+    } else {
+      // Fallback: 'storage' fires in every other tab when localStorage changes
+      // بديل: 'storage' يتم تشغيله في كل تبويب آخر عندما يتغير localStorage
+      window.addEventListener('storage', this.handleStorage);
+    }
+  }
+
+  /**
+   * Broadcast Function
+   * Notifies all other tabs of a session event
+   *
+   * وظيفة البث
+   * يخطر جميع التبويبات الأخرى بحدث الجلسة
+   */
+  public broadcast(type: SessionSyncEventType): void {
+    if (this.closed) {
+      return;
+    }
+    const message: SessionSyncMessage = { type, tabId: this.tabId, timestamp: Date.now() };
+
+    try {
+      if (this.channel) {
+        this.channel.postMessage(message);
+      } else {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(message));
+        window.localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Error broadcasting session event:', error);
+    }
+  }
+
+  /**
+   * Subscribe Function
+   * Registers a listener for events coming from other tabs
+   * Returns an unsubscribe function
+   *
+   * وظيفة الاشتراك
+   * يسجل مستمعاً للأحداث القادمة من التبويبات الأخرى
+   * يعيد وظيفة لإلغاء الاشتراك
+   */
+  public subscribe(listener: SessionSyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Close Function
+   * Stops sending and receiving events - the instance cannot be used afterwards
+   *
+   * وظيفة الإغلاق
+   * يوقف إرسال واستقبال الأحداث - لا يمكن استخدام الكائن بعد ذلك
+   */
+  public close(): void {
+    this.closed = true;
+    this.listeners.clear();
+    if (this.channel) {
+      this.channel.close();
+    } else {
+      window.removeEventListener('storage', this.handleStorage);
+    }
+  }
+
+  private handleStorage = (event: StorageEvent) => {
+    // removeItem() also fires a storage event with newValue = null - ignore it
+    // removeItem() يطلق أيضاً حدث storage مع newValue = null - تجاهله
+    if (event.key !== STORAGE_KEY || !event.newValue) {
+      return;
+    }
+
+    try {
+      this.handleMessage(JSON.parse(event.newValue));
+    } catch (error) {
+      console.error('Error reading session event:', error);
+    }
+  };
+
+  private handleMessage(message: SessionSyncMessage) {
+    if (!message || message.tabId === this.tabId) {
+      return;
+    }
+    this.listeners.forEach((listener) => listener(message.type));
+  }
+}
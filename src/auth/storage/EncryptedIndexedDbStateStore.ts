@@ -0,0 +1,165 @@
+/**
+ * ============================================================================
+ * ENCRYPTED INDEXEDDB STATE STORE - EncryptedIndexedDbStateStore.ts
+ * ============================================================================
+ *
+ * This is an oidc-client-ts StateStore that keeps tokens in IndexedDB,
+ * encrypted with AES-GCM. The encryption key is a non-extractable CryptoKey,
+ * so scripts can use it in this origin but can never read or export it.
+ *
+ * مخزن حالة IndexedDB المشفر - EncryptedIndexedDbStateStore.ts
+ * هذا StateStore لـ oidc-client-ts يحفظ الرموز المميزة في IndexedDB،
+ * مشفرة باستخدام AES-GCM. مفتاح التشفير هو CryptoKey غير قابل للتصدير،
+ * لذا يمكن للنصوص البرمجية استخدامه في هذا الأصل ولكن لا يمكنها قراءته أو تصديره أبداً.
+ *
+ * ============================================================================
+ */
+
+import { StateStore } from 'oidc-client-ts';
+
+const DB_NAME = 'calc-auth';
+const DB_VERSION = 1;
+const KEYS_STORE = 'keys';
+const VALUES_STORE = 'values';
+const ENCRYPTION_KEY_ID = 'token-encryption-key';
+
+interface EncryptedValue {
+  iv: Uint8Array;      // Random nonce, new for every write / رقم عشوائي جديد لكل كتابة
+  data: ArrayBuffer;   // AES-GCM ciphertext / النص المشفر
+}
+
+/**
+ * Promisify Request
+ * Wraps an IDBRequest in a Promise
+ *
+ * تحويل الطلب إلى Promise
+ * يغلف IDBRequest في Promise
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * EncryptedIndexedDbStateStore Class
+ * Shared by all tabs of the origin (like localStorage), unreadable as plain text
+ *
+ * فئة EncryptedIndexedDbStateStore
+ * مشتركة بين جميع تبويبات الأصل (مثل localStorage)، غير قابلة للقراءة كنص عادي
+ */
+export class EncryptedIndexedDbStateStore implements StateStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private encryptionKey: Promise<CryptoKey> | null = null;
+
+  constructor(private readonly prefix = 'oidc.') {}
+
+  public async set(key: string, value: string): Promise<void> {
+    const cryptoKey = await this.getEncryptionKey();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, cryptoKey, new TextEncoder().encode(value));
+
+    const record: EncryptedValue = { iv, data };
+    await this.run(VALUES_STORE, 'readwrite', (store) => store.put(record, this.prefix + key));
+  }
+
+  public async get(key: string): Promise<string | null> {
+    const record = await this.run<EncryptedValue | undefined>(VALUES_STORE, 'readonly', (store) => store.get(this.prefix + key));
+    if (!record) {
+      return null;
+    }
+
+    try {
+      const cryptoKey = await this.getEncryptionKey();
+      const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.iv }, cryptoKey, record.data);
+      return new TextDecoder().decode(plain);
+    } catch (error) {
+      // Written with a key that no longer exists - drop it
+      // تمت كتابته بمفتاح لم يعد موجوداً - احذفه
+      console.error('Error decrypting stored value, removing it:', error);
+      await this.run(VALUES_STORE, 'readwrite', (store) => store.delete(this.prefix + key));
+      return null;
+    }
+  }
+
+  public async remove(key: string): Promise<string | null> {
+    const value = await this.get(key);
+    await this.run(VALUES_STORE, 'readwrite', (store) => store.delete(this.prefix + key));
+    return value;
+  }
+
+  public async getAllKeys(): Promise<string[]> {
+    const keys = await this.run(VALUES_STORE, 'readonly', (store) => store.getAllKeys());
+    return keys
+      .map(String)
+      .filter((key) => key.startsWith(this.prefix))
+      .map((key) => key.slice(this.prefix.length));
+  }
+
+  /**
+   * Open Database
+   * Opens (and on first use creates) the IndexedDB database once
+   *
+   * فتح قاعدة البيانات
+   * يفتح (وينشئ عند أول استخدام) قاعدة بيانات IndexedDB مرة واحدة
+   */
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(KEYS_STORE);
+          request.result.createObjectStore(VALUES_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async run<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDb();
+    return promisifyRequest(action(db.transaction(storeName, mode).objectStore(storeName)));
+  }
+
+  /**
+   * Get Encryption Key
+   * Loads the AES key, or generates and saves it on first use
+   * add() fails if another tab saved a key first - that key is used instead
+   *
+   * الحصول على مفتاح التشفير
+   * يحمل مفتاح AES، أو ينشئه ويحفظه عند أول استخدام
+   * تفشل add() إذا حفظ تبويب آخر مفتاحاً أولاً - يتم استخدام ذلك المفتاح بدلاً منه
+   */
+  private getEncryptionKey(): Promise<CryptoKey> {
+    if (!this.encryptionKey) {
+      this.encryptionKey = (async () => {
+        const existing = await this.run<CryptoKey | undefined>(KEYS_STORE, 'readonly', (store) => store.get(ENCRYPTION_KEY_ID));
+        if (existing) {
+          return existing;
+        }
+
+        const generated = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+        try {
+          await this.run(KEYS_STORE, 'readwrite', (store) => store.add(generated, ENCRYPTION_KEY_ID));
+          return generated;
+        } catch {
+          return await this.run<CryptoKey>(KEYS_STORE, 'readonly', (store) => store.get(ENCRYPTION_KEY_ID));
+        }
+      })();
+
+      // Allow a retry if opening the database failed
+      // السماح بإعادة المحاولة إذا فشل فتح قاعدة البيانات
+      this.encryptionKey.catch(() => {
+        this.encryptionKey = null;
+      });
+    }
+    return this.encryptionKey;
+  }
+}
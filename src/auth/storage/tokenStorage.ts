@@ -0,0 +1,133 @@
+/**
+ * ============================================================================
+ * TOKEN STORAGE - tokenStorage.ts
+ * ============================================================================
+ *
+ * This file builds the userStore passed to UserManager, from the backend
+ * selected in runtime config (tokenStorage):
+ * - memory: tokens live only in this tab's memory (lost on reload)
+ * - sessionStorage: per tab, survives reloads
+ * - localStorage: shared by all tabs, survives browser restarts (readable by any script)
+ * - encryptedIndexedDb: shared by all tabs, encrypted with a non-extractable key
+ *
+ * تخزين الرموز المميزة - tokenStorage.ts
+ * ينشئ هذا الملف userStore الذي يتم تمريره إلى UserManager، من الواجهة الخلفية
+ * المختارة في تكوين وقت التشغيل (tokenStorage):
+ * - memory: الرموز موجودة فقط في ذاكرة هذا التبويب (تُفقد عند إعادة التحميل)
+ * - sessionStorage: لكل تبويب، تبقى بعد إعادة التحميل
+ * - localStorage: مشتركة بين جميع التبويبات، تبقى بعد إعادة تشغيل المتصفح (قابلة للقراءة بأي نص برمجي)
+ * - encryptedIndexedDb: مشتركة بين جميع التبويبات، مشفرة بمفتاح غير قابل للتصدير
+ *
+ * ============================================================================
+ * MIGRATION:
+ * Older versions always stored the user in localStorage ("oidc.user:..." keys).
+ * On first load with another backend, those entries are moved into the new
+ * store and removed from localStorage, so the user stays signed in.
+ *
+ * الترحيل:
+ * الإصدارات الأقدم كانت تخزن المستخدم دائماً في localStorage (مفاتيح "oidc.user:...").
+ * عند أول تحميل مع واجهة خلفية أخرى، يتم نقل هذه الإدخالات إلى المخزن الجديد
+ * وإزالتها من localStorage، حتى يبقى المستخدم مسجلاً الدخول.
+ * ============================================================================
+ */
+
+import { InMemoryWebStorage, StateStore, WebStorageStateStore } from 'oidc-client-ts';
+import { TokenStorageBackend } from '../config/appConfig';
+import { EncryptedIndexedDbStateStore } from './EncryptedIndexedDbStateStore';
+
+/**
+ * Migrate Legacy Users
+ * Moves "user:*" entries from the legacy localStorage store into the target store
+ *
+ * ترحيل المستخدمين القدامى
+ * ينقل إدخالات "user:*" من مخزن localStorage القديم إلى المخزن الهدف
+ */
+const migrateLegacyUsers = async (legacy: StateStore, target: StateStore): Promise<void> => {
+  const keys = (await legacy.getAllKeys()).filter((key) => key.startsWith('user:'));
+
+  for (const key of keys) {
+    const value = await legacy.get(key);
+    if (value !== null) {
+      await target.set(key, value);
+    }
+    await legacy.remove(key);
+  }
+
+  if (keys.length > 0) {
+    console.log(`Migrated ${keys.length} stored user(s) out of localStorage`);
+  }
+};
+
+/**
+ * MigratingStateStore Class
+ * Wraps the target store and holds every call until the migration has finished
+ * (UserManager reads the user as soon as AuthProvider mounts)
+ *
+ * فئة MigratingStateStore
+ * تغلف المخزن الهدف وتؤجل كل استدعاء حتى ينتهي الترحيل
+ * (UserManager يقرأ المستخدم بمجرد تحميل AuthProvider)
+ */
+class MigratingStateStore implements StateStore {
+  private readonly ready: Promise<void>;
+
+  constructor(private readonly target: StateStore, legacy: StateStore) {
+    this.ready = migrateLegacyUsers(legacy, target).catch((error) => {
+      console.error('Error migrating stored user from localStorage:', error);
+    });
+  }
+
+  public async set(key: string, value: string): Promise<void> {
+    await this.ready;
+    return this.target.set(key, value);
+  }
+
+  public async get(key: string): Promise<string | null> {
+    await this.ready;
+    return this.target.get(key);
+  }
+
+  public async remove(key: string): Promise<string | null> {
+    await this.ready;
+    return this.target.remove(key);
+  }
+
+  public async getAllKeys(): Promise<string[]> {
+    await this.ready;
+    return this.target.getAllKeys();
+  }
+}
+
+/**
+ * Create Backend Store
+ * Returns the raw StateStore for a backend
+ *
+ * إنشاء مخزن الواجهة الخلفية
+ * يعيد StateStore الخام لواجهة خلفية
+ */
+const createBackendStore = (backend: TokenStorageBackend): StateStore => {
+  switch (backend) {
+    case 'memory':
+      return new WebStorageStateStore({ store: new InMemoryWebStorage() });
+    case 'sessionStorage':
+      return new WebStorageStateStore({ store: window.sessionStorage });
+    case 'localStorage':
+      return new WebStorageStateStore({ store: window.localStorage });
+    case 'encryptedIndexedDb':
+      return new EncryptedIndexedDbStateStore();
+  }
+};
+
+/**
+ * Create User Store Function
+ * Builds the userStore for UserManager, migrating the legacy localStorage entry
+ *
+ * وظيفة إنشاء مخزن المستخدم
+ * ينشئ userStore لـ UserManager، مع ترحيل إدخال localStorage القديم
+ */
+export const createUserStore = (backend: TokenStorageBackend): StateStore => {
+  const store = createBackendStore(backend);
+  if (backend === 'localStorage') {
+    return store;
+  }
+  return new MigratingStateStore(store, createBackendStore('localStorage'));
+};
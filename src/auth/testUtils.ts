@@ -0,0 +1,40 @@
+/**
+ * ============================================================================
+ * TEST FIXTURES - testUtils.ts
+ * ============================================================================
+ *
+ * Shared builders for the ID token profile and signed-in user used by the
+ * auth tests, so every test starts from the same user.
+ *
+ * بيانات الاختبار - testUtils.ts
+ * منشئات مشتركة لملف رمز الهوية والمستخدم المسجل المستخدمين في اختبارات
+ * المصادقة، حتى يبدأ كل اختبار من نفس المستخدم.
+ *
+ * ============================================================================
+ */
+
+import { IdTokenClaims, User } from 'oidc-client-ts';
+
+/**
+ * Create Profile
+ * ID token claims of user-1 with the given claims added
+ *
+ * إنشاء الملف الشخصي
+ * مطالبات رمز الهوية للمستخدم user-1 مع إضافة المطالبات المعطاة
+ */
+export const createProfile = (claims: Partial<IdTokenClaims>): IdTokenClaims => ({ sub: 'user-1', ...claims } as IdTokenClaims);
+
+/**
+ * Create User
+ * Signed-in user whose access token expires in expiresIn seconds (negative = already expired)
+ *
+ * إنشاء المستخدم
+ * مستخدم مسجل ينتهي رمز وصوله خلال expiresIn ثانية (سالب = منتهي بالفعل)
+ */
+export const createUser = (claims: Partial<IdTokenClaims>, expiresIn = 300): User =>
+  new User({
+    access_token: 'access-token',
+    token_type: 'Bearer',
+    profile: createProfile(claims),
+    expires_at: Math.floor(Date.now() / 1000) + expiresIn,
+  });
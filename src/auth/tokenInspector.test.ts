@@ -0,0 +1,52 @@
+import { IdTokenClaims, User } from 'oidc-client-ts';
+import { decodeToken, getDecodedTokens } from './tokenInspector';
+
+const encode = (value: unknown): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const createJwt = (payload: Record<string, unknown>): string =>
+  `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode(payload)}.c2lnbmF0dXJl`;
+
+describe('decodeToken', () => {
+  it('decodes the header and payload and redacts the signature', () => {
+    expect(decodeToken(createJwt({ sub: 'user-1', scope: ['openid', 'CalcApi'] }))).toEqual({
+      header: { alg: 'RS256', typ: 'JWT' },
+      payload: { sub: 'user-1', scope: ['openid', 'CalcApi'] },
+      signature: '[redacted]',
+    });
+  });
+
+  it('decodes UTF-8 claims', () => {
+    expect(decodeToken(createJwt({ name: 'محمد' }))?.payload.name).toBe('محمد');
+  });
+
+  it.each([
+    ['no token', undefined],
+    ['an opaque token', 'C7A2F1E9B3D5'],
+    ['a payload that is not JSON', `${encode({ alg: 'RS256' })}.bm90IGpzb24.c2ln`],
+  ])('returns null for %s', (_, token) => {
+    expect(decodeToken(token)).toBeNull();
+  });
+});
+
+describe('getDecodedTokens', () => {
+  const createUser = (accessToken: string): User =>
+    new User({
+      id_token: createJwt({ sub: 'user-1' }),
+      access_token: accessToken,
+      refresh_token: 'refresh-token',
+      token_type: 'Bearer',
+      profile: { sub: 'user-1' } as IdTokenClaims,
+    });
+
+  it('decodes the id and access tokens and never includes the refresh token', () => {
+    const tokens = getDecodedTokens(createUser(createJwt({ aud: 'CalcApi' })));
+
+    expect(Object.keys(tokens)).toEqual(['id_token', 'access_token']);
+    expect(tokens.access_token).toMatchObject({ payload: { aud: 'CalcApi' } });
+    expect(JSON.stringify(tokens)).not.toContain('refresh-token');
+  });
+
+  it('redacts an opaque access token', () => {
+    expect(getDecodedTokens(createUser('C7A2F1E9B3D5')).access_token).toBe('opaque [redacted]');
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * ============================================================================
+ * TOKEN INSPECTOR - tokenInspector.ts
+ * ============================================================================
+ *
+ * Helpers for the account page to read JWTs without a library. Tokens are only
+ * decoded for display - they are never verified here (Identity Server and the
+ * APIs do that). Signatures are redacted so a copied token cannot be replayed.
+ *
+ * فاحص الرموز - tokenInspector.ts
+ * مساعدات لصفحة الحساب لقراءة رموز JWT بدون مكتبة. يتم فك ترميز الرموز للعرض
+ * فقط - لا يتم التحقق منها هنا (خادم الهوية وواجهات API يقومون بذلك).
+ * يتم حجب التوقيعات حتى لا يمكن إعادة استخدام رمز منسوخ.
+ *
+ * ============================================================================
+ */
+
+import { User } from 'oidc-client-ts';
+
+const REDACTED = '[redacted]';
+
+/**
+ * Decoded Token
+ * Header and payload of a JWT - the signature is always redacted
+ *
+ * الرمز المفكوك
+ * رأس وحمولة JWT - التوقيع محجوب دائماً
+ */
+export interface DecodedToken {
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  signature: string;
+}
+
+/**
+ * Decode Base64Url
+ * Decodes one JWT segment as UTF-8 JSON
+ *
+ * فك ترميز Base64Url
+ * يفك ترميز جزء واحد من JWT كـ JSON بترميز UTF-8
+ */
+const decodeSegment = (segment: string): Record<string, unknown> => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const utf8 = Array.from(binary)
+    .map((char) => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`)
+    .join('');
+  return JSON.parse(decodeURIComponent(utf8));
+};
+
+/**
+ * Decode Token
+ * Decodes a JWT - null for opaque (reference) tokens or malformed input
+ *
+ * فك ترميز الرمز
+ * يفك ترميز JWT - null للرموز المعتمة (المرجعية) أو المدخلات غير الصالحة
+ */
+export const decodeToken = (token: string | undefined): DecodedToken | null => {
+  const parts = token?.split('.') ?? [];
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    return {
+      header: decodeSegment(parts[0]),
+      payload: decodeSegment(parts[1]),
+      signature: REDACTED,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Get Decoded Tokens
+ * The decoded id_token and access_token of a user, ready to copy
+ * The refresh token is never included
+ *
+ * الحصول على الرموز المفكوكة
+ * id_token و access_token المفكوكان للمستخدم، جاهزان للنسخ
+ * لا يتم تضمين رمز التحديث أبداً
+ */
+export const getDecodedTokens = (user: User): Record<string, DecodedToken | string | null> => ({
+  id_token: decodeToken(user.id_token),
+  access_token: decodeToken(user.access_token) ?? (user.access_token ? `opaque ${REDACTED}` : null),
+});
@@ -1,17 +1,36 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import './index.css';
-import App from './App';
 import reportWebVitals from './reportWebVitals';
+import { loadAppConfig } from './auth/config/appConfig';
+import { getAuthServiceConfig } from './auth/config/authConfig';
+import { createAuthService } from './auth/authService';
+import App from './App';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+
+// Runtime config must be loaded before the app's AuthService is built from it
+// API clients get their tokens from the same service (useApiClient)
+loadAppConfig()
+  .then((config) => {
+    const authService = createAuthService(getAuthServiceConfig());
+    root.render(
+      <React.StrictMode>
+        <App authService={authService} idlePolicy={config.idle} />
+      </React.StrictMode>
+    );
+  })
+  .catch((error: Error) => {
+    console.error('Failed to load app configuration:', error);
+    root.render(
+      <div style={{ padding: 24 }}>
+        <h2 style={{ color: '#d32f2f' }}>Configuration Error</h2>
+        <p style={{ color: '#666' }}>{error.message}</p>
+      </div>
+    );
+  });
 
 // If you want to start measuring performance in your app, pass a function
 // to log results (for example: reportWebVitals(console.log))